@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { gameAccuracy, moveAccuracy, winPercent } from "@/lib/accuracy";
+
+describe("accuracy", () => {
+  describe("winPercent", () => {
+    it("is 50 for a level position", () => {
+      expect(winPercent(0)).toBe(50);
+    });
+
+    it("is symmetric between the sides", () => {
+      expect(winPercent(150) + winPercent(-150)).toBeCloseTo(100);
+    });
+
+    it("flattens out as the advantage grows", () => {
+      const firstPawn = winPercent(100) - winPercent(0);
+      const sixthPawn = winPercent(600) - winPercent(500);
+      expect(firstPawn).toBeGreaterThan(sixthPawn * 2);
+    });
+
+    it("treats anything beyond ten pawns (including mates) alike", () => {
+      expect(winPercent(2000)).toBe(winPercent(1000));
+      expect(winPercent(-2000)).toBe(winPercent(-1000));
+      expect(winPercent(1000)).toBeGreaterThan(97);
+    });
+  });
+
+  describe("moveAccuracy", () => {
+    it("is 100 for a move that gives nothing away", () => {
+      expect(moveAccuracy(60, 60)).toBeCloseTo(100, 1);
+      expect(moveAccuracy(60, 70)).toBeCloseTo(100, 1);
+    });
+
+    it("falls as the win percentage drop grows", () => {
+      const small = moveAccuracy(50, 45);
+      const large = moveAccuracy(50, 25);
+      expect(small).toBeGreaterThan(large);
+      expect(small).toBeGreaterThan(75);
+      expect(large).toBeLessThan(40);
+    });
+
+    it("never goes below 0", () => {
+      expect(moveAccuracy(100, 0)).toBe(0);
+    });
+  });
+
+  describe("gameAccuracy", () => {
+    it("is 100 with no moves", () => {
+      expect(gameAccuracy([], [])).toBe(100);
+    });
+
+    it("is the move accuracy when every move is the same", () => {
+      expect(gameAccuracy([50, 50, 50, 50], [80, 80, 80, 80])).toBeCloseTo(80);
+    });
+
+    it("is pulled down by a single blunder more than the plain mean", () => {
+      const winPercents = [50, 52, 51, 53, 52, 50, 51, 20, 15, 10];
+      const accuracies = [100, 100, 100, 100, 100, 100, 100, 10, 100, 100];
+      const mean = accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length;
+      expect(gameAccuracy(winPercents, accuracies)).toBeLessThan(mean);
+    });
+
+    it("weights moves in volatile stretches of the game more", () => {
+      // The same moves, but the inaccurate one played where the game swings
+      const quiet = [50, 50, 50, 50, 80, 20, 80, 20];
+      const sharp = [80, 20, 80, 20, 50, 50, 50, 50];
+      const accuracies = [60, 60, 60, 60, 100, 100, 100, 100];
+      expect(gameAccuracy(sharp, accuracies)).toBeLessThan(gameAccuracy(quiet, accuracies));
+    });
+  });
+});
@@ -1,7 +1,11 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Chess } from "chess.js";
 import { evaluatePosition, analyzeGame } from "@/lib/analysis-engine";
+import { getMateIn } from "@/lib/evaluation";
 import type { SavedMove } from "@/lib/game-storage";
+import type { EngineProvider } from "@/lib/engine-provider";
+import { createOpeningBook, encodeOpeningBook } from "@/lib/opening-book";
+import { createPositionCache, getPositionCache } from "@/lib/position-cache";
 
 describe("analysis-engine", () => {
   describe("evaluatePosition", () => {
@@ -24,9 +28,18 @@ describe("analysis-engine", () => {
       const score = evaluatePosition(fen);
       expect(score).toBeLessThan(-500);
     });
+
+    it("returns a mate score for a forced mate", () => {
+      // Black to play Qh4#
+      const fen = "rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2";
+      expect(getMateIn(evaluatePosition(fen))).toBe(-1);
+    });
   });
 
   describe("analyzeGame", () => {
+    // Fake providers share a name, so their analyses mustn't be reused
+    beforeEach(() => getPositionCache().clear());
+
     it("analyzes a short game and returns results", async () => {
       // Play a quick 4-move game
       const chess = new Chess();
@@ -57,9 +70,18 @@ describe("analysis-engine", () => {
       expect(result.summary.accuracy).toBeGreaterThanOrEqual(0);
       expect(result.summary.accuracy).toBeLessThanOrEqual(100);
       expect(result.analyzedAt).toBeTruthy();
+
+      // Top engine candidates with their lines
+      const first = result.evaluations[0]!;
+      expect(first.candidates).toHaveLength(3);
+      expect(first.candidates![0].move).toBe(first.bestMove);
+      expect(first.bestLine!.split(" ")[0]).toBe(first.bestMove);
+      for (const candidate of first.candidates!) {
+        expect(candidate.line.split(" ")[0]).toBe(candidate.move);
+      }
     }, 30000); // Allow 30s for analysis
 
-    it("only evaluates player moves", async () => {
+    it("evaluates both sides' moves", async () => {
       const chess = new Chess();
       const moves: SavedMove[] = [];
 
@@ -84,11 +106,240 @@ describe("analysis-engine", () => {
 
       const result = await analyzeGame(moves, "white");
 
-      // Only white's move (e4) should have an evaluation
       expect(result.evaluations[0]).not.toBeNull(); // e4 (white)
-      expect(result.evaluations[1]).toBeNull(); // e5 (black) - not evaluated
+      expect(result.evaluations[1]).not.toBeNull(); // e5 (black)
+      expect(result.sides!.white).toEqual(result.summary);
+      expect(result.sides!.black.accuracy).toBeGreaterThan(0);
     }, 15000);
 
+    it("summarises each side separately", async () => {
+      const chess = new Chess();
+      const moves: SavedMove[] = [];
+      for (const san of ["e4", "f6"]) {
+        const move = chess.move(san);
+        moves.push({
+          san: move.san,
+          from: move.from,
+          to: move.to,
+          fen: chess.fen(),
+          fenBefore: move.before,
+          piece: move.piece,
+          color: move.color,
+          flags: move.flags,
+        });
+      }
+      // e4 keeps white's edge; f6 hands white a winning position
+      const scores: Record<string, number> = {
+        [moves[0].fenBefore]: 30,
+        [moves[0].fen]: 30,
+        [moves[1].fen]: 400,
+      };
+      const provider: EngineProvider = {
+        name: "fake",
+        analyse: vi.fn(async (fen: string) => ({
+          lines: [{ move: new Chess(fen).moves()[0], score: scores[fen], pv: [] }],
+          depth: 20,
+        })),
+      };
+
+      const result = await analyzeGame(moves, "black", undefined, undefined, provider);
+
+      expect(result.evaluations[0]!.classification).toBe("great");
+      expect(result.evaluations[1]!.classification).toBe("blunder");
+      expect(result.sides!.white.accuracy).toBe(100);
+      expect(result.sides!.white.phaseAccuracy).toEqual({ opening: 100 });
+      expect(result.sides!.black.blunders).toBe(1);
+      expect(result.evaluations[1]!.phase).toBe("opening");
+      // f6 is the moment the game turned
+      expect(result.criticalMoments).toMatchObject([{ index: 1, kind: "swing" }]);
+      // The summary is the player's side
+      expect(result.summary).toEqual(result.sides!.black);
+      // Each position is searched once, the one after e4 serving both moves
+      expect(provider.analyse).toHaveBeenCalledTimes(3);
+    });
+
+    it("doesn't search positions again when re-analysing", async () => {
+      const chess = new Chess();
+      const moves: SavedMove[] = ["e4", "e5"].map((san) => {
+        const move = chess.move(san);
+        return {
+          san: move.san,
+          from: move.from,
+          to: move.to,
+          fen: chess.fen(),
+          fenBefore: move.before,
+          piece: move.piece,
+          color: move.color,
+          flags: move.flags,
+        };
+      });
+      const provider: EngineProvider = {
+        name: "fake",
+        analyse: vi.fn(async (fen: string) => ({
+          lines: [{ move: new Chess(fen).moves()[0], score: 20, pv: [] }],
+          depth: 20,
+        })),
+      };
+      const cache = createPositionCache(null);
+
+      const first = await analyzeGame(moves, "white", undefined, undefined, provider, null, cache);
+      const second = await analyzeGame(moves, "white", undefined, undefined, provider, null, cache);
+
+      expect(provider.analyse).toHaveBeenCalledTimes(3);
+      expect(second.evaluations).toEqual(first.evaluations);
+      expect(cache.stats()).toMatchObject({ entries: 3, hits: 3 });
+    });
+
+    it("records mates separately from centipawns", async () => {
+      const chess = new Chess();
+      const moves: SavedMove[] = [];
+      for (const san of ["f3", "e5", "g4", "Qh4#"]) {
+        const fenBefore = chess.fen();
+        const move = chess.move(san);
+        moves.push({
+          san: move.san,
+          from: move.from,
+          to: move.to,
+          fen: chess.fen(),
+          fenBefore,
+          piece: move.piece,
+          color: move.color,
+          flags: move.flags,
+          captured: move.captured,
+        });
+      }
+
+      const result = await analyzeGame(moves, "black");
+      const mating = result.evaluations[3]!;
+
+      expect(mating.mate).toBe(0);
+      expect(mating.centipawns).toBeLessThan(-1000);
+      expect(mating.cpLoss).toBe(0);
+      expect(result.evaluations[1]!.mate).toBeUndefined();
+      expect(mating.candidates![0]).toMatchObject({ move: "Qh4#", mate: -1 });
+    }, 15000);
+
+    it("analyses with the engine provider it is given", async () => {
+      const chess = new Chess();
+      const e4 = chess.move("e4");
+      const moves: SavedMove[] = [
+        {
+          san: e4.san,
+          from: e4.from,
+          to: e4.to,
+          fen: chess.fen(),
+          fenBefore: e4.before,
+          piece: e4.piece,
+          color: e4.color,
+          flags: e4.flags,
+        },
+      ];
+      const provider: EngineProvider = {
+        name: "fake",
+        analyse: vi.fn(async (fen: string) =>
+          fen === e4.before
+            ? {
+                lines: [
+                  { move: "d4", score: 40, pv: ["d4", "d5"] },
+                  { move: "e4", score: -60, pv: ["e4"] },
+                ],
+                depth: 20,
+              }
+            : { lines: [{ move: "e5", score: -60, pv: ["e5"] }], depth: 20 }
+        ),
+      };
+
+      const result = await analyzeGame(moves, "white", undefined, undefined, provider);
+      const evaluation = result.evaluations[0]!;
+
+      expect(evaluation.bestMove).toBe("d4");
+      expect(evaluation.bestLine).toBe("d4 d5");
+      expect(evaluation.cpLoss).toBe(100);
+      // 40 -> -60 drops white's winning chances by about 9 points
+      expect(evaluation.classification).toBe("inaccuracy");
+      expect(evaluation.accuracy).toBeCloseTo(66, 0);
+      expect(provider.analyse).toHaveBeenCalledTimes(2);
+    });
+
+    it("doesn't call a quiet reply to a fork brilliant", async () => {
+      // e5 forks the knight and bishop, and white steps the king aside
+      const chess = new Chess("4k3/4p3/3p4/8/3N1B2/8/P7/R3K3 b - - 0 1");
+      const moves: SavedMove[] = ["e5", "Kd2"].map((san) => {
+        const move = chess.move(san);
+        return {
+          san: move.san,
+          from: move.from,
+          to: move.to,
+          fen: chess.fen(),
+          fenBefore: move.before,
+          piece: move.piece,
+          color: move.color,
+          flags: move.flags,
+        };
+      });
+      const provider: EngineProvider = {
+        name: "fake",
+        analyse: vi.fn(async (fen: string) => ({
+          lines: [{ move: fen === moves[1].fenBefore ? "Kd2" : "e5", score: 200, pv: [] }],
+          depth: 20,
+        })),
+      };
+
+      const result = await analyzeGame(moves, "white", undefined, undefined, provider, null, null);
+
+      expect(result.evaluations[1]!.classification).toBe("great");
+    });
+
+    it("marks theory moves as book and leaves them out of the accuracy", async () => {
+      const chess = new Chess();
+      const moves: SavedMove[] = [];
+      for (const san of ["e4", "e5", "Nf3", "Nc6", "Qe2"]) {
+        const move = chess.move(san);
+        moves.push({
+          san: move.san,
+          from: move.from,
+          to: move.to,
+          fen: chess.fen(),
+          fenBefore: move.before,
+          piece: move.piece,
+          color: move.color,
+          flags: move.flags,
+        });
+      }
+      // The book knows the first three moves, and prefers d4 to e4
+      const book = createOpeningBook(
+        encodeOpeningBook([
+          { fen: moves[0].fenBefore, uci: "d2d4", weight: 5 },
+          { fen: moves[0].fenBefore, uci: "e2e4", weight: 3 },
+          { fen: moves[1].fenBefore, uci: "e7e5", weight: 1 },
+          { fen: moves[2].fenBefore, uci: "g1f3", weight: 1 },
+          // Nc6 isn't in the book, so Qe2 is out of it even though listed
+          { fen: moves[4].fenBefore, uci: "d1e2", weight: 1 },
+        ])
+      );
+      const provider: EngineProvider = {
+        name: "fake",
+        analyse: vi.fn(async (fen: string) => ({
+          lines: [{ move: new Chess(fen).moves()[0], score: 500, pv: [] }],
+          depth: 1,
+        })),
+      };
+
+      const result = await analyzeGame(moves, "white", undefined, undefined, provider, book);
+
+      expect(result.evaluations[0]).toEqual({
+        centipawns: 500,
+        bestMove: "d4",
+        classification: "book",
+        cpLoss: 0,
+        phase: "opening",
+      });
+      expect(result.evaluations[2]!.classification).toBe("book");
+      expect(result.evaluations[4]!.classification).not.toBe("book");
+      // Only Qe2 counts, and it lost nothing
+      expect(result.summary.accuracy).toBe(100);
+    });
+
     it("reports progress via callback", async () => {
       const chess = new Chess();
       const moves: SavedMove[] = [];
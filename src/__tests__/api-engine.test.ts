@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "@/app/api/engine/route";
+import { NextRequest } from "next/server";
+
+vi.mock("@/lib/uci-process", () => ({
+  getConfiguredEngine: vi.fn(),
+}));
+
+// Mock rate limiter to always allow in tests
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: vi.fn().mockReturnValue({
+    allowed: true,
+    remaining: 599,
+    resetIn: 600000,
+  }),
+}));
+
+import { getConfiguredEngine } from "@/lib/uci-process";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+const mockGetConfiguredEngine = vi.mocked(getConfiguredEngine);
+const mockCheckRateLimit = vi.mocked(checkRateLimit);
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+const engine = {
+  name: "Stockfish 16",
+  analyse: vi.fn(),
+  close: vi.fn(),
+};
+
+function createRequest(body: unknown): NextRequest {
+  return new NextRequest(new URL("/api/engine", "http://localhost:3000"), {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("/api/engine", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCheckRateLimit.mockReturnValue({
+      allowed: true,
+      remaining: 599,
+      resetIn: 600000,
+    });
+    mockGetConfiguredEngine.mockReturnValue(engine);
+  });
+
+  describe("GET", () => {
+    it("reports the configured engine", async () => {
+      const res = await GET();
+      expect(await res.json()).toEqual({ available: true, name: "Stockfish 16" });
+    });
+
+    it("reports when no engine is configured", async () => {
+      mockGetConfiguredEngine.mockReturnValue(null);
+      const res = await GET();
+      expect(await res.json()).toEqual({ available: false });
+    });
+  });
+
+  describe("POST", () => {
+    it("returns the engine's analysis", async () => {
+      const analysis = { lines: [{ move: "e4", score: 30, pv: ["e4"] }], depth: 16 };
+      engine.analyse.mockResolvedValue(analysis);
+
+      const res = await POST(createRequest({ fen: START_FEN, multiPv: 3 }));
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ analysis });
+      expect(engine.analyse).toHaveBeenCalledWith(START_FEN, 3);
+    });
+
+    it("defaults to a single line", async () => {
+      engine.analyse.mockResolvedValue(null);
+      await POST(createRequest({ fen: START_FEN }));
+      expect(engine.analyse).toHaveBeenCalledWith(START_FEN, 1);
+    });
+
+    it("passes the engine a normalised FEN", async () => {
+      engine.analyse.mockResolvedValue(null);
+      await POST(createRequest({ fen: START_FEN.replace(" w ", "\nw\n") }));
+      expect(engine.analyse).toHaveBeenCalledWith(START_FEN, 1);
+    });
+
+    it("returns 503 when no engine is configured", async () => {
+      mockGetConfiguredEngine.mockReturnValue(null);
+      const res = await POST(createRequest({ fen: START_FEN }));
+      expect(res.status).toBe(503);
+    });
+
+    it("returns 400 for an invalid FEN", async () => {
+      const res = await POST(createRequest({ fen: "not a position" }));
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("FEN");
+    });
+
+    it("returns 400 for an out-of-range multiPv", async () => {
+      const res = await POST(createRequest({ fen: START_FEN, multiPv: 50 }));
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 429 when rate limited", async () => {
+      mockCheckRateLimit.mockReturnValue({ allowed: false, remaining: 0, resetIn: 30000 });
+      const res = await POST(createRequest({ fen: START_FEN }));
+      expect(res.status).toBe(429);
+      expect(res.headers.get("Retry-After")).toBe("30");
+    });
+
+    it("returns 500 when the engine fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      engine.analyse.mockRejectedValue(new Error("Engine exited (code 1)"));
+      const res = await POST(createRequest({ fen: START_FEN }));
+      expect(res.status).toBe(500);
+    });
+  });
+});
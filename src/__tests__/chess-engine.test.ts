@@ -1,11 +1,21 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { Chess } from "chess.js";
 import {
   getAIMove,
   getMaterialCount,
   getCapturedPieces,
-  type Difficulty,
+  getStrengthProfile,
+  getThinkTimeBudget,
+  searchWithLimits,
+  MAX_RATING,
+  MIN_RATING,
+  type SearchProgress,
 } from "@/lib/chess-engine";
+import {
+  createOpeningBook,
+  encodeOpeningBook,
+  setOpeningBook,
+} from "@/lib/opening-book";
 
 describe("chess-engine", () => {
   describe("getMaterialCount", () => {
@@ -77,7 +87,7 @@ describe("chess-engine", () => {
   describe("getAIMove", () => {
     it("returns a legal move from starting position", async () => {
       const chess = new Chess();
-      const move = await getAIMove(chess.fen(), "beginner");
+      const move = await getAIMove(chess.fen(), MIN_RATING);
       expect(move).toBeTruthy();
       expect(move!.from).toBeTruthy();
       expect(move!.to).toBeTruthy();
@@ -88,26 +98,214 @@ describe("chess-engine", () => {
       const fen = "rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3";
       const chess = new Chess(fen);
       if (chess.isGameOver()) {
-        const move = await getAIMove(fen, "beginner");
+        const move = await getAIMove(fen, MIN_RATING);
         expect(move).toBeNull();
       }
     });
 
-    // NOTE: "intermediate" (depth 8) and "advanced" (depth 15) minimax
-    // are too expensive to run in unit tests. We test beginner only for speed.
-    // The checkmate-in-one test uses a near-terminal position which is fast
-    // even at higher depths since few moves remain.
+    // NOTE: searches at stronger ratings (up to depth 15) are too
+    // expensive to run in unit tests. We test the weakest rating for speed;
+    // the checkmate-in-one test uses a near-terminal position which is fast
+    // at any depth since few moves remain.
 
     it("returns a valid move even from a complex position", async () => {
       // Ruy Lopez position — many legal moves, tests that AI handles it
       const fen =
         "r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3";
-      const move = await getAIMove(fen, "beginner");
+      const move = await getAIMove(fen, MIN_RATING);
       expect(move).toBeTruthy();
       // Verify it's a legal move
       const chess = new Chess(fen);
       const result = chess.move(move!);
       expect(result).toBeTruthy();
     }, 5000);
+
+    it("sometimes misses the best move at a low rating", async () => {
+      const mateInOne = "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1";
+      const random = vi.spyOn(Math, "random");
+      try {
+        // Rolls under the blunder chance play a worse move...
+        random.mockReturnValue(0);
+        expect((await getAIMove(mateInOne, MIN_RATING))!.san).not.toBe("Ra8#");
+        // ...otherwise the noise isn't enough to hide a mate
+        random.mockReturnValue(0.999);
+        expect((await getAIMove(mateInOne, MIN_RATING))!.san).toBe("Ra8#");
+      } finally {
+        random.mockRestore();
+      }
+    });
+
+    it("plays from the opening book while it has moves", async () => {
+      const start = new Chess().fen();
+      setOpeningBook(
+        createOpeningBook(
+          encodeOpeningBook([
+            { fen: start, uci: "c2c4", weight: 1 },
+            { fen: start, uci: "a2a3", weight: 0 },
+          ])
+        )
+      );
+      try {
+        const move = await getAIMove(start, MIN_RATING);
+        expect(move!.san).toBe("c4");
+      } finally {
+        setOpeningBook(null);
+      }
+    });
+
+    it("stops deep searches when the clock budget runs out", async () => {
+      // The top rating has a max depth of 15, which would never finish here;
+      // with 3s on the clock the budget is ~100ms
+      const fen =
+        "r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3";
+      const start = Date.now();
+      const move = await getAIMove(fen, MAX_RATING, {
+        remaining: 3000,
+        increment: 0,
+      });
+      expect(move).toBeTruthy();
+      expect(Date.now() - start).toBeLessThan(4000);
+    }, 10000);
+  });
+
+  describe("getStrengthProfile", () => {
+    it("searches deeper and errs less as the rating rises", () => {
+      const weak = getStrengthProfile(MIN_RATING);
+      const club = getStrengthProfile(1500);
+      const strong = getStrengthProfile(MAX_RATING);
+
+      expect(weak.depth).toBeLessThan(club.depth);
+      expect(club.depth).toBeLessThan(strong.depth);
+      expect(weak.noise).toBeGreaterThan(club.noise);
+      expect(weak.blunderChance).toBeGreaterThan(club.blunderChance);
+      expect(weak.blunderScale).toBeGreaterThan(club.blunderScale);
+      expect(weak.maxThinkTime).toBeLessThan(strong.maxThinkTime);
+    });
+
+    it("plays its best at the top rating", () => {
+      expect(getStrengthProfile(MAX_RATING)).toMatchObject({
+        noise: 0,
+        blunderChance: 0,
+        lines: 1,
+      });
+    });
+
+    it("scores only a handful of root lines below the top", () => {
+      expect(getStrengthProfile(MIN_RATING).lines).toBe(6);
+      expect(getStrengthProfile(MAX_RATING - 1).lines).toBe(4);
+    });
+
+    it("clamps ratings outside the range", () => {
+      expect(getStrengthProfile(100)).toEqual(getStrengthProfile(MIN_RATING));
+      expect(getStrengthProfile(3000)).toEqual(getStrengthProfile(MAX_RATING));
+    });
+  });
+
+  describe("getThinkTimeBudget", () => {
+    it("uses the rating's budget when no clock is running", () => {
+      expect(getThinkTimeBudget(MIN_RATING)).toBeLessThan(
+        getThinkTimeBudget(MAX_RATING)
+      );
+    });
+
+    it("spends a fraction of the remaining clock plus increment", () => {
+      const budget = getThinkTimeBudget(MAX_RATING, {
+        remaining: 60000,
+        increment: 1000,
+      });
+      expect(budget).toBe(60000 / 30 + 800);
+    });
+
+    it("never exceeds the rating's budget", () => {
+      const budget = getThinkTimeBudget(MIN_RATING, {
+        remaining: 10 * 60 * 1000,
+        increment: 5000,
+      });
+      expect(budget).toBe(getThinkTimeBudget(MIN_RATING));
+    });
+
+    it("keeps a safety margin when nearly out of time", () => {
+      const budget = getThinkTimeBudget(MAX_RATING, {
+        remaining: 400,
+        increment: 2000,
+      });
+      expect(budget).toBeLessThan(400);
+    });
+  });
+
+  describe("searchWithLimits", () => {
+    const fen = "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3";
+    // Plenty of captures for the hustler to check
+    const middlegame = "r1bq1rk1/pp2bppp/2n1pn2/2pp4/2PP4/2N1PN2/PP2BPPP/R1BQ1RK1 w - - 0 8";
+
+    it("searches exactly to the requested depth", async () => {
+      const progress: SearchProgress[] = [];
+      const san = await searchWithLimits(fen, MAX_RATING, { depth: 3 }, {
+        onProgress: (p) => progress.push(p),
+      });
+      expect(progress.map((p) => p.depth)).toEqual([1, 2, 3]);
+      // One deepening pass: nodes add up rather than starting again
+      expect(progress[1].nodes).toBeGreaterThan(progress[0].nodes);
+      expect(progress[2].nodes).toBeGreaterThan(progress[1].nodes);
+      expect(progress[2].pv[0]).toBe(san);
+    });
+
+    it("stops between iterations when aborted", async () => {
+      const controller = new AbortController();
+      const progress: SearchProgress[] = [];
+      const san = await searchWithLimits(fen, MAX_RATING, { infinite: true }, {
+        signal: controller.signal,
+        onProgress: (p) => {
+          progress.push(p);
+          if (p.depth === 2) controller.abort();
+        },
+      });
+      expect(progress).toHaveLength(2);
+      expect(new Chess(fen).move(san!)).toBeTruthy();
+    });
+
+    it("searches in the personality's style", async () => {
+      const afterE4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1";
+      const standard = await searchWithLimits(afterE4, MAX_RATING, { depth: 3 });
+      const hustler = await searchWithLimits(afterE4, MAX_RATING, { depth: 3 }, {
+        personality: "hustler",
+      });
+      expect(new Chess(afterE4).move(hustler!)).toBeTruthy();
+      expect(hustler).not.toBe(standard);
+    }, 15000);
+
+    it("keeps to a fixed move time", async () => {
+      const start = Date.now();
+      await searchWithLimits(new Chess().fen(), MAX_RATING, { moveTime: 300 });
+      expect(Date.now() - start).toBeLessThan(1500);
+    }, 10000);
+
+    it("keeps to the move time when looking for traps", async () => {
+      const start = Date.now();
+      await searchWithLimits(middlegame, MAX_RATING, { moveTime: 300 }, {
+        personality: "hustler",
+      });
+      expect(Date.now() - start).toBeLessThan(4000);
+    }, 30000);
+
+    it("stops looking for traps when aborted", async () => {
+      const controller = new AbortController();
+      let stoppedAt = 0;
+      const san = await searchWithLimits(middlegame, MAX_RATING, { depth: 3 }, {
+        signal: controller.signal,
+        personality: "hustler",
+        // Stop once the trap search is under way
+        onProgress: (p) => {
+          if (p.depth < 3) return;
+          setTimeout(() => {
+            stoppedAt = Date.now();
+            controller.abort();
+          }, 200);
+        },
+      });
+      expect(stoppedAt).toBeGreaterThan(0);
+      expect(Date.now() - stoppedAt).toBeLessThan(1000);
+      expect(new Chess(middlegame).move(san!)).toBeTruthy();
+    }, 60000);
   });
 });
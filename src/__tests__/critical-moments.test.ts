@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { describeMoment, findCriticalMoments } from "@/lib/critical-moments";
+import type { CandidateMove, MoveEvaluation, SavedMove } from "@/lib/game-storage";
+
+function playMoves(sans: string[]): SavedMove[] {
+  const chess = new Chess();
+  return sans.map((san) => {
+    const move = chess.move(san);
+    return {
+      san: move.san,
+      from: move.from,
+      to: move.to,
+      fen: chess.fen(),
+      fenBefore: move.before,
+      piece: move.piece,
+      color: move.color,
+      flags: move.flags,
+    };
+  });
+}
+
+function evaluation(centipawns: number, candidates: [string, number][]): MoveEvaluation {
+  return {
+    centipawns,
+    bestMove: candidates[0][0],
+    candidates: candidates.map(
+      ([move, cp]): CandidateMove => ({ move, centipawns: cp, line: `${move} ...` })
+    ),
+    classification: "good",
+    cpLoss: 0,
+  };
+}
+
+describe("critical-moments", () => {
+  const moves = playMoves(["e4", "e5", "Nf3", "Nc6", "Bc4", "Nd4"]);
+
+  it("finds swings, missed wins and only moves", () => {
+    const evaluations = [
+      evaluation(30, [["e4", 30], ["d4", 25]]),
+      evaluation(30, [["e5", 30], ["c5", 35]]),
+      evaluation(30, [["Nf3", 30], ["Nc3", 20]]),
+      // Black holds only with Nc6
+      evaluation(30, [["Nc6", 30], ["d6", 400]]),
+      // White misses a winning shot
+      evaluation(20, [["Qh5", 600], ["Bc4", 20]]),
+      // Black throws the game away
+      evaluation(450, [["Nf6", 20], ["Be7", 40]]),
+    ];
+
+    expect(findCriticalMoments(moves, evaluations)).toEqual([
+      { index: 3, kind: "onlyMove", bestMove: "Nc6", bestLine: "Nc6 ..." },
+      { index: 4, kind: "missedWin", bestMove: "Qh5", bestLine: "Qh5 ..." },
+      { index: 5, kind: "swing", bestMove: "Nf6", bestLine: "Nf6 ..." },
+    ]);
+  });
+
+  it("skips moves without engine candidates", () => {
+    const evaluations = moves.map(() => null);
+    expect(findCriticalMoments(moves, evaluations)).toEqual([]);
+  });
+
+  it("keeps only the biggest moments of a wild game", () => {
+    const many = playMoves(
+      ["Nf3", "Nf6", "Ng1", "Ng8"].concat(["Nf3", "Nf6", "Ng1", "Ng8"]).concat(["Nf3", "Nf6"])
+    );
+    // Every move swings the game by more and more
+    const evaluations = many.map((move, i) =>
+      evaluation((move.color === "w" ? -1 : 1) * (100 + i * 50), [[move.san, 0], ["a3", 0]])
+    );
+    const moments = findCriticalMoments(many, evaluations);
+    expect(moments).toHaveLength(8);
+    expect(moments.map((m) => m.index)).toEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("describes each kind of moment", () => {
+    expect(
+      describeMoment({ index: 4, kind: "missedWin", bestMove: "Qh5", bestLine: "" }, moves)
+    ).toBe("White missed a win with Bc4");
+    expect(
+      describeMoment({ index: 5, kind: "swing", bestMove: "Nf6", bestLine: "" }, moves)
+    ).toBe("Nd4 turned the game");
+    expect(
+      describeMoment({ index: 3, kind: "onlyMove", bestMove: "Nc6", bestLine: "" }, moves)
+    ).toBe("Black found the only move, Nc6");
+    expect(
+      describeMoment({ index: 5, kind: "onlyMove", bestMove: "Nf6", bestLine: "" }, moves)
+    ).toBe("Only Nf6 held for Black; Nd4 didn't");
+  });
+});
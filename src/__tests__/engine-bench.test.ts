@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  getNps,
+  parseEpd,
+  runBenchmark,
+  runTacticalSuite,
+  WAC_POSITIONS,
+} from "@/lib/engine-bench";
+
+describe("engine-bench", () => {
+  describe("parseEpd", () => {
+    it("reads the position, best moves and id", () => {
+      const position = parseEpd(
+        '2rr3k/pp3pp1/1nnqbN1p/3pN3/2pP4/2P3Q1/PPB4P/R4RK1 w - - bm Qg6; id "WAC.001";'
+      );
+      expect(position).toEqual({
+        id: "WAC.001",
+        fen: "2rr3k/pp3pp1/1nnqbN1p/3pN3/2pP4/2P3Q1/PPB4P/R4RK1 w - - 0 1",
+        bestMoves: ["Qg6"],
+        avoidMoves: [],
+      });
+    });
+
+    it("normalises moves to the engine's SAN", () => {
+      // WAC.010 lists Rh7, which captures
+      expect(parseEpd(WAC_POSITIONS[9]).bestMoves).toEqual(["Rxh7"]);
+      const avoid = parseEpd("6k1/5ppp/8/8/8/8/8/R5K1 w - - am Ra2 Ra3; id \"test\";");
+      expect(avoid.avoidMoves).toEqual(["Ra2", "Ra3"]);
+    });
+
+    it("rejects illegal moves and lines without moves", () => {
+      expect(() => parseEpd("6k1/5ppp/8/8/8/8/8/R5K1 w - - bm Qh5;")).toThrow();
+      expect(() => parseEpd('6k1/5ppp/8/8/8/8/8/R5K1 w - - id "none";')).toThrow();
+    });
+
+    it("parses every bundled WAC position", () => {
+      expect(() => WAC_POSITIONS.map(parseEpd)).not.toThrow();
+    });
+  });
+
+  describe("runTacticalSuite", () => {
+    it("counts the positions whose best move the engine plays", async () => {
+      const summary = await runTacticalSuite(200, [
+        '6k1/5ppp/8/8/8/8/8/R5K1 w - - bm Ra8#; id "mate";',
+        '6k1/5ppp/8/8/8/8/8/R5K1 w - - am Ra8#; id "avoid";',
+      ]);
+      expect(summary.total).toBe(2);
+      expect(summary.solved).toBe(1);
+      expect(summary.results[0]).toMatchObject({ id: "mate", played: "Ra8#", solved: true });
+    });
+  });
+
+  describe("runBenchmark", () => {
+    it("times each depth of the search", async () => {
+      const fen = "8/8/4k3/3p4/3P4/4K3/8/8 w - - 0 1";
+      const summary = await runBenchmark(3, [fen]);
+      const [result] = summary.results;
+
+      expect(result.depths.map((timing) => timing.depth)).toEqual([1, 2, 3]);
+      expect(result.nodes).toBe(result.depths[2].nodes);
+      expect(result.depths[1].nodes).toBeGreaterThan(result.depths[0].nodes);
+      expect(summary.nodes).toBe(result.nodes);
+      expect(result.bestMove).toBeTruthy();
+    });
+
+    it("computes nodes per second", () => {
+      expect(getNps(5000, 2000)).toBe(2500);
+      expect(getNps(100, 0)).toBe(100000);
+    });
+  });
+});
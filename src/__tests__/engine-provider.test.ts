@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createServerEngineProvider,
+  type EngineProvider,
+  type PositionAnalysis,
+} from "@/lib/engine-provider";
+
+const FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+const SERVER_ANALYSIS: PositionAnalysis = {
+  lines: [{ move: "e4", score: 30, pv: ["e4", "e5"] }],
+  depth: 18,
+};
+const BUILT_IN_ANALYSIS: PositionAnalysis = {
+  lines: [{ move: "d4", score: 20, pv: ["d4"] }],
+  depth: 4,
+};
+
+// What the server provider returns when it falls back
+const FALLBACK_ANALYSIS: PositionAnalysis = { ...BUILT_IN_ANALYSIS, engine: "fallback" };
+
+function fallback(): EngineProvider {
+  return { name: "fallback", analyse: vi.fn().mockResolvedValue(BUILT_IN_ANALYSIS) };
+}
+
+function respond(status: number, body: unknown) {
+  return { ok: status < 400, status, json: async () => body } as Response;
+}
+
+describe("createServerEngineProvider", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("uses the server engine when one is available", async () => {
+    const fetchMock = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(respond(200, { available: true, name: "Stockfish 16" }))
+      .mockResolvedValueOnce(respond(200, { analysis: SERVER_ANALYSIS }));
+    const builtIn = fallback();
+
+    const analysis = await createServerEngineProvider(builtIn).analyse(FEN, 3);
+
+    expect(analysis).toEqual(SERVER_ANALYSIS);
+    expect(builtIn.analyse).not.toHaveBeenCalled();
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe("/api/engine");
+    expect(JSON.parse(init!.body as string)).toEqual({ fen: FEN, multiPv: 3 });
+  });
+
+  it("falls back when the server has no engine", async () => {
+    const fetchMock = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(respond(200, { available: false }));
+    const builtIn = fallback();
+    const provider = createServerEngineProvider(builtIn);
+
+    expect(await provider.analyse(FEN, 1)).toEqual(FALLBACK_ANALYSIS);
+    expect(await provider.analyse(FEN, 1)).toEqual(FALLBACK_ANALYSIS);
+    // The status is only checked once
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back when the server can't be reached", async () => {
+    vi.spyOn(global, "fetch").mockRejectedValueOnce(new TypeError("fetch failed"));
+    const builtIn = fallback();
+
+    expect(await createServerEngineProvider(builtIn).analyse(FEN, 1)).toEqual(
+      FALLBACK_ANALYSIS
+    );
+  });
+
+  it("switches to the fallback for good after a failed request", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(respond(200, { available: true }))
+      .mockResolvedValueOnce(respond(500, { error: "Engine analysis failed" }));
+    const builtIn = fallback();
+    const provider = createServerEngineProvider(builtIn);
+
+    expect(await provider.analyse(FEN, 1)).toEqual(FALLBACK_ANALYSIS);
+    expect(await provider.analyse(FEN, 1)).toEqual(FALLBACK_ANALYSIS);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(builtIn.analyse).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { createEngineService, EngineStoppedError } from "@/lib/engine-service";
+import { createEngineWorker } from "@/lib/engine-worker";
+import type { EngineResponse } from "@/lib/engine-protocol";
+import type { SavedMove } from "@/lib/game-storage";
+
+function buildMoves(sans: string[]): SavedMove[] {
+  const chess = new Chess();
+  const moves: SavedMove[] = [];
+  for (const san of sans) {
+    const fenBefore = chess.fen();
+    const move = chess.move(san);
+    moves.push({
+      san: move.san,
+      from: move.from,
+      to: move.to,
+      fen: chess.fen(),
+      fenBefore,
+      piece: move.piece,
+      color: move.color,
+      flags: move.flags,
+      captured: move.captured,
+    });
+  }
+  return moves;
+}
+
+describe("engine-worker", () => {
+  it("answers a search request with a best move", async () => {
+    const responses: EngineResponse[] = [];
+    const handle = createEngineWorker((r) => responses.push(r));
+
+    await handle({
+      type: "search",
+      id: 1,
+      fen: "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1",
+      rating: 2200,
+      clock: { remaining: 3000, increment: 0 },
+    });
+
+    expect(responses).toEqual([{ type: "bestMove", id: 1, san: "Ra8#" }]);
+  }, 10000);
+
+  it("returns a null move when there are no legal moves", async () => {
+    const responses: EngineResponse[] = [];
+    const handle = createEngineWorker((r) => responses.push(r));
+
+    await handle({
+      type: "search",
+      id: 7,
+      fen: "rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3",
+      rating: 400,
+    });
+
+    expect(responses).toEqual([{ type: "bestMove", id: 7, san: null }]);
+  });
+
+  it("streams progress events then the analysis", async () => {
+    const responses: EngineResponse[] = [];
+    const handle = createEngineWorker((r) => responses.push(r));
+
+    await handle({
+      type: "analyzeGame",
+      id: 2,
+      moves: buildMoves(["e4", "e5"]),
+      playerColor: "white",
+    });
+
+    const progress = responses.filter((r) => r.type === "progress");
+    expect(progress.length).toBe(2);
+    const last = responses[responses.length - 1];
+    expect(last.type).toBe("analysis");
+    expect(last.id).toBe(2);
+  }, 15000);
+
+  it("reports a stopped analysis instead of a result", async () => {
+    const responses: EngineResponse[] = [];
+    const handle = createEngineWorker((r) => responses.push(r));
+
+    // Long enough that the analysis yields to the event loop before finishing
+    const running = handle({
+      type: "analyzeGame",
+      id: 3,
+      moves: buildMoves(["e4", "e5", "Nf3", "Nc6", "Bc4", "Bc5", "c3", "Nf6"]),
+      playerColor: "black",
+    });
+    await handle({ type: "stop", id: 3 });
+    await running;
+
+    expect(responses[responses.length - 1]).toEqual({ type: "stopped", id: 3 });
+    expect(responses.some((r) => r.type === "analysis")).toBe(false);
+  }, 30000);
+
+  it("scores a position from white's point of view", async () => {
+    const responses: EngineResponse[] = [];
+    const handle = createEngineWorker((r) => responses.push(r));
+
+    // White is a queen up
+    await handle({ type: "evaluate", id: 4, fen: "4k3/8/8/8/8/8/8/3QK3 b - - 0 1" });
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0].type).toBe("evaluation");
+    expect(responses[0].type === "evaluation" && responses[0].score).toBeGreaterThan(500);
+  }, 10000);
+
+  it("reports and clears the cache game analysis fills", async () => {
+    const responses: EngineResponse[] = [];
+    const handle = createEngineWorker((r) => responses.push(r));
+
+    await handle({ type: "clearCache", id: 5 });
+    await handle({ type: "evaluate", id: 6, fen: "4k3/8/8/8/8/8/8/3QK3 w - - 0 1" });
+    await handle({ type: "cacheStats", id: 7 });
+    await handle({ type: "clearCache", id: 8 });
+
+    expect(responses[2]).toMatchObject({ type: "cacheStats", id: 7, stats: { entries: 1 } });
+    expect(responses[3]).toEqual({
+      type: "cacheStats",
+      id: 8,
+      stats: { hits: 0, misses: 0, entries: 0, hitRate: null },
+    });
+  }, 10000);
+});
+
+describe("engine-service", () => {
+  it("resolves getMove with a legal SAN move", async () => {
+    const engine = createEngineService();
+    const fen = "r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3";
+    const san = await engine.getMove(fen, 400);
+
+    expect(san).toBeTruthy();
+    expect(new Chess(fen).move(san!)).toBeTruthy();
+    engine.terminate();
+  }, 10000);
+
+  it("forwards analysis progress to the caller", async () => {
+    const engine = createEngineService();
+    const calls: number[] = [];
+    const analysis = await engine.analyzeGame(
+      buildMoves(["d4", "d5"]),
+      "black",
+      (current) => calls.push(current)
+    );
+
+    expect(calls).toEqual([1, 2]);
+    expect(analysis.evaluations).toHaveLength(2);
+    engine.terminate();
+  }, 15000);
+
+  it("resolves evaluate with a score", async () => {
+    const engine = createEngineService();
+    const score = await engine.evaluate("3qk3/8/8/8/8/8/8/4K3 w - - 0 1");
+
+    expect(score).toBeLessThan(-500);
+    engine.terminate();
+  }, 10000);
+
+  it("resolves cache requests with the worker's stats", async () => {
+    const engine = createEngineService();
+    await engine.clearCache();
+    await engine.evaluate("3qk3/8/8/8/8/8/8/4K3 w - - 0 1");
+
+    expect((await engine.cacheStats()).entries).toBe(1);
+    expect((await engine.clearCache()).entries).toBe(0);
+    engine.terminate();
+  }, 10000);
+
+  it("rejects pending requests when stopped", async () => {
+    const engine = createEngineService();
+    const pending = engine.getMove(new Chess().fen(), 400);
+    engine.stop();
+
+    await expect(pending).rejects.toBeInstanceOf(EngineStoppedError);
+  });
+
+  it("can be used again after terminate", async () => {
+    const engine = createEngineService();
+    engine.terminate();
+    const san = await engine.getMove(new Chess().fen(), 400);
+    expect(san).toBeTruthy();
+    engine.terminate();
+  }, 10000);
+});
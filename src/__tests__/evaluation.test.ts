@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import {
+  evaluateBoard,
+  createEvaluator,
+  getGamePhase,
+  getMateIn,
+  isMateScore,
+  MATE_SCORE,
+  DEFAULT_WEIGHTS,
+  PIECE_VALUES,
+} from "@/lib/evaluation";
+
+// Swap colours and flip the board vertically
+function mirrorFen(fen: string): string {
+  const [board, turn, castling, ep, half, full] = fen.split(" ");
+  const swapCase = (s: string) =>
+    s.replace(/[a-zA-Z]/g, (c) =>
+      c === c.toUpperCase() ? c.toLowerCase() : c.toUpperCase()
+    );
+  const mirroredBoard = swapCase(board.split("/").reverse().join("/"));
+  const mirroredCastling = castling === "-" ? "-" : swapCase(castling);
+  const mirroredEp =
+    ep === "-" ? "-" : `${ep[0]}${ep[1] === "3" ? "6" : "3"}`;
+  return [
+    mirroredBoard,
+    turn === "w" ? "b" : "w",
+    mirroredCastling,
+    mirroredEp,
+    half,
+    full,
+  ].join(" ");
+}
+
+describe("evaluation", () => {
+  it("scores the starting position as level", () => {
+    expect(evaluateBoard(new Chess())).toBe(0);
+  });
+
+  it("is symmetric between the colours", () => {
+    const fens = [
+      "r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3",
+      "r1bq1rk1/ppp2ppp/2np1n2/2b1p3/2B1P3/2NP1N2/PPP2PPP/R1BQ1RK1 w - - 0 7",
+      "8/5k2/3p4/8/2P5/6K1/8/8 w - - 0 40",
+    ];
+    for (const fen of fens) {
+      const score = evaluateBoard(new Chess(fen));
+      const mirrored = evaluateBoard(new Chess(mirrorFen(fen)));
+      expect(mirrored + score).toBe(0);
+    }
+  });
+
+  it("rewards advancing pawns towards promotion", () => {
+    const home = new Chess("4k3/8/8/8/8/8/4P3/4K3 w - - 0 1");
+    const advanced = new Chess("4k3/4P3/8/8/8/8/8/4K3 b - - 0 1");
+    expect(evaluateBoard(advanced)).toBeGreaterThan(evaluateBoard(home));
+  });
+
+  it("prefers a castled king in the middlegame", () => {
+    const castled = new Chess(
+      "r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/5N2/PPPP1PPP/RNBQ1RK1 b kq - 5 4"
+    );
+    const central = new Chess(
+      "r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/5N2/PPPPKPPP/RNBQ3R b kq - 5 4"
+    );
+    expect(evaluateBoard(castled)).toBeGreaterThan(evaluateBoard(central));
+  });
+
+  it("uses positional tables for every piece type", () => {
+    // A bishop in the corner is worse than a centralised one
+    const corner = new Chess("4k3/p7/8/8/8/8/P7/B3K3 w - - 0 1");
+    const centre = new Chess("4k3/p7/8/8/3B4/8/P7/4K3 w - - 0 1");
+    expect(evaluateBoard(centre)).toBeGreaterThan(evaluateBoard(corner));
+  });
+
+  it("returns the mate score for checkmate", () => {
+    const mated = new Chess(
+      "rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3"
+    );
+    expect(evaluateBoard(mated)).toBe(-MATE_SCORE);
+  });
+
+  describe("mate scores", () => {
+    it("tells mates apart from ordinary evaluations", () => {
+      expect(isMateScore(MATE_SCORE - 5)).toBe(true);
+      expect(isMateScore(-(MATE_SCORE - 5))).toBe(true);
+      expect(isMateScore(2500)).toBe(false);
+    });
+
+    it("converts plies to mate into moves for the mating side", () => {
+      expect(getMateIn(MATE_SCORE - 1)).toBe(1);
+      expect(getMateIn(MATE_SCORE - 2)).toBe(1);
+      expect(getMateIn(MATE_SCORE - 5)).toBe(3);
+      expect(getMateIn(-(MATE_SCORE - 4))).toBe(-2);
+      expect(getMateIn(-MATE_SCORE)).toBe(0);
+      expect(getMateIn(150)).toBeNull();
+    });
+  });
+
+  describe("game phase", () => {
+    it("runs from 24 at the start to 0 with only kings and pawns", () => {
+      expect(getGamePhase(new Chess())).toBe(24);
+      expect(getGamePhase(new Chess("4k3/p7/8/8/8/8/P7/4K3 w - - 0 1"))).toBe(0);
+    });
+
+    it("centralises the king once the pieces are gone", () => {
+      const corner = new Chess("7k/p7/8/8/8/8/P7/K7 w - - 0 1");
+      const centre = new Chess("7k/p7/8/8/3K4/8/P7/8 w - - 0 1");
+      expect(evaluateBoard(centre)).toBeGreaterThan(evaluateBoard(corner));
+    });
+  });
+
+  describe("pawn structure", () => {
+    it("rewards a passed pawn over a blocked one", () => {
+      const blocked = new Chess("4k3/3p4/8/3P4/8/8/8/4K3 w - - 0 1");
+      const passed = new Chess("4k3/p7/8/3P4/8/8/8/4K3 w - - 0 1");
+      expect(evaluateBoard(passed)).toBeGreaterThan(evaluateBoard(blocked));
+    });
+
+    it("penalises doubled and isolated pawns", () => {
+      const healthy = new Chess("4k3/pp6/8/8/8/8/PP6/4K3 w - - 0 1");
+      const doubled = new Chess("4k3/pp6/8/8/8/P7/P7/4K3 w - - 0 1");
+      expect(evaluateBoard(doubled)).toBeLessThan(evaluateBoard(healthy));
+    });
+
+    it("can be switched off with its weight", () => {
+      const chess = new Chess("4k3/p7/8/3P4/8/8/8/4K3 w - - 0 1");
+      const ignored = createEvaluator({ pawnStructure: 0 })(chess);
+      expect(ignored).toBeLessThan(evaluateBoard(chess));
+    });
+  });
+
+  describe("pieces", () => {
+    it("rewards the bishop pair", () => {
+      const pair = new Chess("4k3/pp3ppp/2n5/8/8/8/PP1BBPPP/4K3 w - - 0 1");
+      const withoutPair = createEvaluator({ bishopPair: 0 })(pair);
+      expect(evaluateBoard(pair) - withoutPair).toBeGreaterThan(0);
+    });
+
+    it("rewards a rook on an open file", () => {
+      const closed = new Chess("4k3/pppp1ppp/8/8/8/8/PPPP1PPP/R3K3 w - - 0 1");
+      const open = new Chess("4k3/pppp1ppp/8/8/8/8/PPPP1PPP/4R1K1 w - - 0 1");
+      const noTables = createEvaluator({ pieceSquare: 0, mobility: 0, kingSafety: 0 });
+      expect(noTables(open)).toBeGreaterThan(noTables(closed));
+    });
+
+    it("values mobility", () => {
+      const trapped = new Chess("4k3/pppppppp/8/8/8/1P6/PBPPPPPP/4K3 w - - 0 1");
+      const free = new Chess("4k3/pppppppp/8/8/8/8/PPPPPPPP/4KB2 w - - 0 1");
+      const mobilityOnly = (chess: Chess) =>
+        evaluateBoard(chess) - createEvaluator({ mobility: 0 })(chess);
+      expect(mobilityOnly(trapped)).toBeGreaterThan(mobilityOnly(free));
+    });
+  });
+
+  describe("king safety", () => {
+    it("prefers a pawn shield to open files in front of the king", () => {
+      const sheltered = new Chess(
+        "r2qk2r/ppp2ppp/8/8/8/8/PPP2PPP/R2Q1RK1 w kq - 0 1"
+      );
+      const exposed = new Chess(
+        "r2qk2r/ppp2ppp/8/8/8/8/PPPPP3/R2Q1RK1 w kq - 0 1"
+      );
+      const safetyOnly = (chess: Chess) =>
+        evaluateBoard(chess) - createEvaluator({ kingSafety: 0 })(chess);
+      expect(safetyOnly(sheltered)).toBeGreaterThan(safetyOnly(exposed));
+    });
+  });
+
+  describe("style terms", () => {
+    it("are off by default", () => {
+      expect(DEFAULT_WEIGHTS.kingAttack).toBe(0);
+      expect(DEFAULT_WEIGHTS.simplification).toBe(0);
+    });
+
+    it("rewards pieces bearing down on the enemy king", () => {
+      // The same queen next to the black king, or far away on a1
+      const near = new Chess("6k1/5ppp/5Q2/8/8/8/5PPP/6K1 w - - 0 1");
+      const far = new Chess("6k1/5ppp/8/8/8/8/5PPP/Q5K1 w - - 0 1");
+      const attackOnly = (chess: Chess) =>
+        createEvaluator({ kingAttack: 1 })(chess) - evaluateBoard(chess);
+      expect(attackOnly(near)).toBeGreaterThan(0);
+      expect(attackOnly(far)).toBe(0);
+    });
+
+    it("rewards trading down for the side that is ahead", () => {
+      // White a knight up, with and without the rooks
+      const rooks = new Chess("r3k3/pppp4/8/8/8/8/PPPP4/R2NK3 w - - 0 1");
+      const traded = new Chess("4k3/pppp4/8/8/8/8/PPPP4/3NK3 w - - 0 1");
+      const tradeOnly = (chess: Chess) =>
+        createEvaluator({ simplification: 1 })(chess) - evaluateBoard(chess);
+      expect(tradeOnly(traded)).toBeGreaterThan(tradeOnly(rooks));
+      expect(tradeOnly(new Chess(mirrorFen(traded.fen())))).toBe(-tradeOnly(traded));
+    });
+  });
+
+  describe("createEvaluator", () => {
+    // Symmetric pawns, so only the bishop counts
+    const fen = "4k3/p7/8/8/3B4/8/P7/4K3 w - - 0 1";
+
+    it("matches evaluateBoard with default weights", () => {
+      const chess = new Chess(fen);
+      expect(createEvaluator()(chess)).toBe(evaluateBoard(chess, DEFAULT_WEIGHTS));
+    });
+
+    it("scales piece-square and mobility bonuses", () => {
+      const chess = new Chess(fen);
+      const materialOnly = createEvaluator({ pieceSquare: 0, mobility: 0 })(chess);
+      expect(materialOnly).toBe(PIECE_VALUES.b);
+    });
+
+    it("accepts custom piece values", () => {
+      const chess = new Chess(fen);
+      const bishopsLoved = createEvaluator({
+        pieceValues: { ...PIECE_VALUES, b: 400 },
+      })(chess);
+      expect(bishopsLoved - evaluateBoard(chess)).toBe(70);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { classifyPhase, formatPhase } from "@/lib/game-phase";
+
+describe("game-phase", () => {
+  describe("classifyPhase", () => {
+    it("puts the start position in the opening", () => {
+      expect(classifyPhase("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1")).toBe(
+        "opening"
+      );
+    });
+
+    it("stays in the opening while the pieces come out", () => {
+      // Italian game, both sides with a couple of pieces developed
+      expect(
+        classifyPhase("r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4")
+      ).toBe("opening");
+    });
+
+    it("moves to the middlegame once a side has developed", () => {
+      // White has castled and brought out all four minor pieces
+      expect(
+        classifyPhase("r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/2NP1N2/PPP2PPP/R2Q1RK1 b kq - 0 7")
+      ).toBe("middlegame");
+    });
+
+    it("moves to the middlegame once pieces are traded", () => {
+      // Queens off early: undeveloped, but not an opening any more
+      expect(classifyPhase("rnb1kbnr/ppp2ppp/8/4p3/4P3/8/PPP2PPP/RNB1KBNR w KQkq - 0 5")).toBe(
+        "middlegame"
+      );
+    });
+
+    it("moves to the middlegame after enough moves however slow the development", () => {
+      expect(classifyPhase("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 16")).toBe(
+        "middlegame"
+      );
+    });
+
+    it("recognises endgames by the material left", () => {
+      // Rook and bishop each, no queens
+      expect(classifyPhase("4k3/pp3ppp/2b5/8/8/2B5/PP3PPP/3R2K1 w - - 0 30")).toBe("endgame");
+      // Queen each
+      expect(classifyPhase("3qk3/pp3ppp/8/8/8/8/PP3PPP/3Q2K1 w - - 0 30")).toBe("endgame");
+      // King and pawns
+      expect(classifyPhase("4k3/p7/8/8/8/8/P7/4K3 w - - 0 50")).toBe("endgame");
+    });
+
+    it("keeps queens and minor pieces on in the middlegame", () => {
+      expect(classifyPhase("2rqk3/pp1b1ppp/8/8/8/8/PP1B1PPP/2RQ2K1 w - - 0 25")).toBe(
+        "middlegame"
+      );
+    });
+  });
+
+  describe("formatPhase", () => {
+    it("capitalises the phase", () => {
+      expect(formatPhase("middlegame")).toBe("Middlegame");
+    });
+  });
+});
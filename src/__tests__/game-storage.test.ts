@@ -6,6 +6,7 @@ import {
   updateGame,
   deleteGame,
   generateGameId,
+  getPlayerEvaluations,
   saveCurrentGame,
   loadCurrentGame,
   clearCurrentGame,
@@ -155,6 +156,40 @@ describe("game-storage", () => {
     });
   });
 
+  describe("getPlayerEvaluations", () => {
+    it("returns the player's evaluated moves with their indices", () => {
+      const game = createTestGame();
+      game.moves.push({ ...game.moves[0], san: "e5", color: "b" });
+      const evaluation = {
+        centipawns: 30,
+        bestMove: "e4",
+        classification: "great" as const,
+        cpLoss: 0,
+      };
+      game.analysis = {
+        evaluations: [evaluation, { ...evaluation, bestMove: "c5" }],
+        summary: {
+          accuracy: 100,
+          brilliant: 0,
+          great: 1,
+          good: 0,
+          inaccuracies: 0,
+          mistakes: 0,
+          blunders: 0,
+        },
+        analyzedAt: new Date().toISOString(),
+      };
+
+      expect(getPlayerEvaluations(game)).toEqual([{ index: 0, evaluation }]);
+      game.metadata.playerColor = "black";
+      expect(getPlayerEvaluations(game)[0].index).toBe(1);
+    });
+
+    it("is empty for an unanalysed game", () => {
+      expect(getPlayerEvaluations(createTestGame())).toEqual([]);
+    });
+  });
+
   describe("in-progress game", () => {
     it("saves and loads current game", () => {
       const game: InProgressGame = {
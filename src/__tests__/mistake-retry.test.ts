@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Chess } from "chess.js";
+import {
+  getRetryPositions,
+  isGoodRetry,
+  recordSolvedMistake,
+} from "@/lib/mistake-retry";
+import {
+  getGameById,
+  saveCompletedGame,
+  type MoveClassification,
+  type MoveEvaluation,
+  type SavedGame,
+  type SavedMove,
+} from "@/lib/game-storage";
+
+function evaluation(
+  classification: MoveClassification,
+  candidates: [string, number][] = [["e4", 30]]
+): MoveEvaluation {
+  return {
+    centipawns: 0,
+    bestMove: candidates[0][0],
+    candidates: candidates.map(([move, centipawns]) => ({ move, centipawns, line: move })),
+    classification,
+    cpLoss: 0,
+  };
+}
+
+function createGame(evaluations: (MoveEvaluation | null)[]): SavedGame {
+  const chess = new Chess();
+  const moves: SavedMove[] = ["e4", "e5", "Nf3", "Nc6"].map((san) => {
+    const move = chess.move(san);
+    return {
+      san: move.san,
+      from: move.from,
+      to: move.to,
+      fen: chess.fen(),
+      fenBefore: move.before,
+      piece: move.piece,
+      color: move.color,
+      flags: move.flags,
+    };
+  });
+
+  return {
+    id: "game-1",
+    pgn: "",
+    moves,
+    metadata: {
+      date: "2026-03-01T12:00:00.000Z",
+      playerColor: "white",
+      opponentType: "ai",
+      result: "draw",
+      resultReason: "agreement",
+      totalMoves: 4,
+      source: "local",
+    },
+    analysis: {
+      evaluations,
+      summary: {
+        accuracy: 50,
+        brilliant: 0,
+        great: 0,
+        good: 0,
+        inaccuracies: 0,
+        mistakes: 1,
+        blunders: 1,
+      },
+      analyzedAt: new Date().toISOString(),
+    },
+  };
+}
+
+describe("mistake-retry", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("getRetryPositions", () => {
+    it("lists the player's mistakes and blunders", () => {
+      const game = createGame([
+        evaluation("mistake"),
+        evaluation("blunder"), // the opponent's
+        evaluation("blunder"),
+        null,
+      ]);
+      expect(getRetryPositions(game)).toEqual([0, 2]);
+    });
+
+    it("skips inaccuracies and solved positions", () => {
+      const game = createGame([
+        evaluation("inaccuracy"),
+        null,
+        evaluation("blunder"),
+        null,
+      ]);
+      expect(getRetryPositions({ ...game, solvedMistakes: [2] })).toEqual([]);
+    });
+  });
+
+  describe("isGoodRetry", () => {
+    const position = evaluation("blunder", [["Qxf7#", 2000], ["Nf3", 50]]);
+
+    it("accepts moves close to the best", () => {
+      expect(isGoodRetry(position, "w", 2000)).toBe(true);
+      expect(isGoodRetry(evaluation("mistake", [["Nf3", 50]]), "w", 20)).toBe(true);
+    });
+
+    it("rejects moves that still lose ground", () => {
+      expect(isGoodRetry(position, "w", 50)).toBe(false);
+    });
+
+    it("judges from the mover's side", () => {
+      const black = evaluation("mistake", [["Nc6", -200]]);
+      expect(isGoodRetry(black, "b", -190)).toBe(true);
+      expect(isGoodRetry(black, "b", 100)).toBe(false);
+    });
+
+    it("rejects everything without engine candidates", () => {
+      expect(isGoodRetry({ ...position, candidates: undefined }, "w", 2000)).toBe(false);
+    });
+  });
+
+  describe("recordSolvedMistake", () => {
+    it("remembers solved positions once", () => {
+      saveCompletedGame(createGame([evaluation("mistake"), null, evaluation("blunder"), null]));
+
+      recordSolvedMistake("game-1", 2);
+      recordSolvedMistake("game-1", 2);
+
+      const game = getGameById("game-1")!;
+      expect(game.solvedMistakes).toEqual([2]);
+      expect(getRetryPositions(game)).toEqual([0]);
+    });
+
+    it("ignores unknown games", () => {
+      expect(() => recordSolvedMistake("missing", 0)).not.toThrow();
+    });
+  });
+});
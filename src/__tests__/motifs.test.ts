@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { countMotifs, detectMotifs, refreshWeaknessProfile } from "@/lib/motifs";
+import {
+  getUserProfile,
+  saveCompletedGame,
+  saveUserProfile,
+  type SavedGame,
+} from "@/lib/game-storage";
+
+describe("motifs", () => {
+  describe("detectMotifs", () => {
+    it("finds a missed knight fork", () => {
+      // Nc7+ forks king and rook
+      const fen = "r3k3/8/8/3N4/8/8/8/4K3 w - - 0 1";
+      expect(detectMotifs(fen, "Kd2", ["Nc7+", "Kd7", "Nxa8"])).toContain("fork");
+    });
+
+    it("finds a missed pin and a missed skewer", () => {
+      // Bb5 pins the knight to the king
+      expect(
+        detectMotifs("4k3/8/2n5/8/8/8/8/4KB2 w - - 0 1", "Kd2", ["Bb5"])
+      ).toContain("pin");
+      // Re1+ skewers the king to the queen behind it
+      expect(
+        detectMotifs("4q3/8/8/4k3/8/8/8/R5K1 w - - 0 1", "Kh2", ["Re1+", "Kd6", "Rxe8"])
+      ).toContain("skewer");
+    });
+
+    it("finds a discovered attack", () => {
+      // Moving the knight off the e-file uncovers the rook on the queen
+      const fen = "4q1k1/8/8/8/8/4N3/8/4R1K1 w - - 0 1";
+      expect(detectMotifs(fen, "Kf2", ["Nc4"])).toContain("discoveredAttack");
+    });
+
+    it("labels an allowed capture of an undefended piece as a hanging piece", () => {
+      // Bd2 leaves the bishop where the queen takes it for free
+      const fen = "3qk3/8/8/8/8/8/8/2B4K w - - 0 1";
+      expect(detectMotifs(fen, "Bd2", ["Kg2"], ["Qxd2"])).toContain("hangingPiece");
+    });
+
+    it("labels a piece left en prise as a hanging piece", () => {
+      // Kb2 walks away from the bishop the queen is attacking
+      const fen = "3qk3/8/8/8/8/8/3B4/2K5 w - - 0 1";
+      expect(detectMotifs(fen, "Kb2", ["Bb4"])).toContain("hangingPiece");
+    });
+
+    it("doesn't blame a move for a piece that was already attacked", () => {
+      // e5 forked the knight and bishop before Kd2 was played
+      const fen = "4k3/8/3p4/4p3/3N1B2/8/P7/R3K3 w - - 0 2";
+      expect(detectMotifs(fen, "Kd2", ["Nf5"])).not.toContain("hangingPiece");
+    });
+
+    it("doesn't call an even trade a hanging piece", () => {
+      // Nxd6+ is met by cxd6
+      const fen = "4k3/2p5/3n4/8/4N3/5K2/8/8 w - - 0 1";
+      expect(detectMotifs(fen, "Kf4", ["Nxd6+", "cxd6"])).not.toContain("hangingPiece");
+    });
+
+    it("labels a missed back-rank mate", () => {
+      const fen = "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1";
+      expect(detectMotifs(fen, "Kf1", ["Ra8#"])).toEqual(["backRankMate", "mateIn1"]);
+    });
+
+    it("labels an allowed mate by its length", () => {
+      // Fool's mate: g4 allows Qh4#
+      const fen = "rnbqkbnr/pppp1ppp/8/4p3/8/5P2/PPPPP1PP/RNBQKBNR w KQkq - 0 2";
+      expect(detectMotifs(fen, "g4", ["e3"], ["Qh4#"])).toContain("mateIn1");
+    });
+
+    it("finds nothing in a quiet line", () => {
+      const fen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+      expect(detectMotifs(fen, "a3", ["e4", "e5", "Nf3"], ["e5"])).toEqual([]);
+    });
+
+    it("ignores lines that don't fit the position", () => {
+      const fen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+      expect(detectMotifs(fen, "a3", ["Qxf7#"], ["Qh4#"])).toEqual([]);
+    });
+  });
+
+  describe("weakness profile", () => {
+    function gameWithMotifs(id: string, playerColor: "white" | "black"): SavedGame {
+      const move = {
+        san: "e4",
+        from: "e2",
+        to: "e4",
+        fen: "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1",
+        fenBefore: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+        piece: "p",
+        color: "w" as const,
+        flags: "b",
+      };
+      const blunder = {
+        centipawns: -300,
+        bestMove: "d4",
+        classification: "blunder" as const,
+        cpLoss: 330,
+        motifs: ["fork" as const, "pin" as const],
+      };
+      return {
+        id,
+        pgn: "1. e4 e5",
+        moves: [move, { ...move, san: "e5", color: "b" }],
+        metadata: {
+          date: new Date().toISOString(),
+          playerColor,
+          opponentType: "ai",
+          result: "black",
+          resultReason: "checkmate",
+          totalMoves: 2,
+          source: "local",
+        },
+        analysis: {
+          evaluations: [blunder, { ...blunder, motifs: ["fork" as const] }],
+          summary: {
+            accuracy: 50,
+            brilliant: 0,
+            great: 0,
+            good: 0,
+            inaccuracies: 0,
+            mistakes: 0,
+            blunders: 1,
+          },
+          analyzedAt: new Date().toISOString(),
+        },
+      };
+    }
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("counts only the player's motifs", () => {
+      expect(countMotifs([gameWithMotifs("a", "white")])).toEqual({ fork: 1, pin: 1 });
+      expect(countMotifs([gameWithMotifs("b", "black")])).toEqual({ fork: 1 });
+    });
+
+    it("recounts the profile from the game history", () => {
+      saveUserProfile({ ...getUserProfile(), weaknessProfile: { skewer: 7 } });
+      saveCompletedGame(gameWithMotifs("a", "white"));
+      saveCompletedGame(gameWithMotifs("b", "white"));
+
+      refreshWeaknessProfile();
+      refreshWeaknessProfile();
+
+      expect(getUserProfile().weaknessProfile).toEqual({ fork: 2, pin: 2 });
+    });
+  });
+});
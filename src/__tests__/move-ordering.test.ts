@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import {
+  createMoveOrdering,
+  describeSan,
+  capturedValue,
+  mvvLvaScore,
+} from "@/lib/move-ordering";
+
+const PIECE_VALUES: Record<string, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 20000,
+};
+
+describe("move-ordering", () => {
+  describe("describeSan", () => {
+    it("parses piece moves, captures and checks", () => {
+      expect(describeSan("Nxf7+")).toEqual({
+        piece: "n",
+        to: "f7",
+        isCapture: true,
+        promotion: null,
+        isCheck: true,
+      });
+    });
+
+    it("parses pawn promotions", () => {
+      const move = describeSan("exd8=Q#");
+      expect(move.piece).toBe("p");
+      expect(move.to).toBe("d8");
+      expect(move.promotion).toBe("q");
+      expect(move.isCheck).toBe(true);
+    });
+
+    it("treats castling as a king move without a target", () => {
+      const move = describeSan("O-O-O");
+      expect(move.piece).toBe("k");
+      expect(move.to).toBeNull();
+      expect(move.isCapture).toBe(false);
+    });
+  });
+
+  describe("capturedValue", () => {
+    it("values the captured piece", () => {
+      const chess = new Chess("4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1");
+      expect(capturedValue(chess, "Rxd5", PIECE_VALUES)).toBe(900);
+      expect(capturedValue(chess, "Rd4", PIECE_VALUES)).toBe(0);
+    });
+
+    it("counts en passant as winning a pawn", () => {
+      const chess = new Chess("4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2");
+      expect(capturedValue(chess, "exd6", PIECE_VALUES)).toBe(100);
+    });
+  });
+
+  describe("mvvLvaScore", () => {
+    it("prefers taking with the least valuable attacker", () => {
+      // Both the pawn and the queen can take the rook on d5
+      const chess = new Chess("4k3/8/8/3r4/4P3/8/8/3QK3 w - - 0 1");
+      expect(mvvLvaScore(chess, "exd5", PIECE_VALUES)).toBeGreaterThan(
+        mvvLvaScore(chess, "Qxd5", PIECE_VALUES)
+      );
+    });
+  });
+
+  describe("createMoveOrdering", () => {
+    const fen = "4k3/8/8/3r4/4P3/8/8/3QK3 w - - 0 1";
+
+    it("searches the hash move first", () => {
+      const chess = new Chess(fen);
+      const ordering = createMoveOrdering(PIECE_VALUES);
+      const ordered = ordering.order(chess, chess.moves(), 0, "Kf2");
+      expect(ordered[0]).toBe("Kf2");
+    });
+
+    it("puts captures ahead of quiet moves, best victim first", () => {
+      const chess = new Chess(fen);
+      const ordering = createMoveOrdering(PIECE_VALUES);
+      const ordered = ordering.order(chess, chess.moves(), 0);
+      expect(ordered.slice(0, 2)).toEqual(["exd5", "Qxd5"]);
+    });
+
+    it("puts promotions ahead of captures", () => {
+      const chess = new Chess("3r2k1/4P3/8/8/8/8/8/4K3 w - - 0 1");
+      const ordering = createMoveOrdering(PIECE_VALUES);
+      const ordered = ordering.order(chess, chess.moves(), 0);
+      expect(ordered[0]).toMatch(/=Q/);
+    });
+
+    it("tries killer moves right after captures at the same ply", () => {
+      const chess = new Chess(fen);
+      const ordering = createMoveOrdering(PIECE_VALUES);
+      ordering.recordCutoff(chess, "Qg4", 3, 2);
+
+      const atPly3 = ordering.order(chess, chess.moves(), 3);
+      expect(atPly3.slice(0, 3)).toEqual(["exd5", "Qxd5", "Qg4"]);
+    });
+
+    it("ranks quiet moves by history score", () => {
+      const chess = new Chess(fen);
+      const ordering = createMoveOrdering(PIECE_VALUES);
+      // Record at a different ply so only the history table applies
+      ordering.recordCutoff(chess, "Qh5+", 7, 4);
+
+      const ordered = ordering.order(chess, chess.moves(), 0);
+      expect(ordered[2]).toBe("Qh5+");
+    });
+
+    it("never records captures as killers", () => {
+      const chess = new Chess(fen);
+      const ordering = createMoveOrdering(PIECE_VALUES);
+      ordering.recordCutoff(chess, "Qxd5", 1, 3);
+      const ordered = ordering.order(chess, chess.moves(), 1);
+      // Captures stay in MVV-LVA order
+      expect(ordered.slice(0, 2)).toEqual(["exd5", "Qxd5"]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { readFileSync } from "node:fs";
+import { Chess } from "chess.js";
+import {
+  createOpeningBook,
+  encodeOpeningBook,
+  getOpeningBook,
+  getPolyglotKey,
+  loadOpeningBook,
+  pickBookMove,
+  setOpeningBook,
+} from "@/lib/opening-book";
+
+// Play UCI moves from the start and return the resulting FEN
+function after(...moves: string[]): string {
+  const chess = new Chess();
+  for (const uci of moves) {
+    chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+  }
+  return chess.fen();
+}
+
+const START = new Chess().fen();
+
+describe("opening-book", () => {
+  afterEach(() => {
+    setOpeningBook(null);
+    vi.restoreAllMocks();
+  });
+
+  describe("getPolyglotKey", () => {
+    // Test vectors from the Polyglot book format specification
+    it.each([
+      [[], "463b96181691fc9c"],
+      [["e2e4"], "823c9b50fd114196"],
+      [["e2e4", "d7d5"], "0756b94461c50fb0"],
+      [["e2e4", "d7d5", "e4e5"], "662fafb965db29d4"],
+      [["e2e4", "d7d5", "e4e5", "f7f5"], "22a48b5a8e47ff78"],
+      [["e2e4", "d7d5", "e4e5", "f7f5", "e1e2"], "652a607ca3f242c1"],
+      [["e2e4", "d7d5", "e4e5", "f7f5", "e1e2", "e8f7"], "00fdd303c946bdd9"],
+      [["a2a4", "b7b5", "h2h4", "b5b4", "c2c4"], "3c8123ea7b067637"],
+      [["a2a4", "b7b5", "h2h4", "b5b4", "c2c4", "b4c3", "a1a3"], "5c3f9b829b279560"],
+    ])("hashes %j", (moves, key) => {
+      expect(getPolyglotKey(after(...moves))).toBe(key);
+    });
+  });
+
+  describe("createOpeningBook", () => {
+    it("finds the legal moves for a position, heaviest first", () => {
+      const book = createOpeningBook(
+        encodeOpeningBook([
+          { fen: START, uci: "d2d4", weight: 10 },
+          { fen: START, uci: "e2e4", weight: 30 },
+          { fen: after("e2e4"), uci: "c7c5", weight: 5 },
+        ])
+      );
+
+      expect(book.size).toBe(3);
+      expect(book.lookup(START)).toEqual([
+        { san: "e4", uci: "e2e4", weight: 30 },
+        { san: "d4", uci: "d2d4", weight: 10 },
+      ]);
+      expect(book.lookup(after("e2e4"))[0].san).toBe("c5");
+      expect(book.lookup(after("g1f3"))).toEqual([]);
+    });
+
+    it("reads castling and promotions", () => {
+      const castling = "r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1";
+      const promotion = "8/4P3/8/8/8/8/k7/7K w - - 0 1";
+      const book = createOpeningBook(
+        encodeOpeningBook([
+          { fen: castling, uci: "e1g1", weight: 2 },
+          { fen: castling, uci: "e1c1", weight: 1 },
+          { fen: promotion, uci: "e7e8n", weight: 1 },
+        ])
+      );
+
+      expect(book.lookup(castling).map((move) => move.san)).toEqual(["O-O", "O-O-O"]);
+      expect(book.lookup(promotion)[0]).toMatchObject({ san: "e8=N", uci: "e7e8n" });
+    });
+
+    it("stores castling as the king taking its rook", () => {
+      const castling = "r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1";
+      const view = new DataView(encodeOpeningBook([{ fen: castling, uci: "e1g1", weight: 1 }]));
+      // e1 (file 4, row 0) to h1 (file 7, row 0)
+      expect(view.getUint16(8)).toBe((4 << 6) | 7);
+    });
+
+    it("skips entries that aren't legal in the position", () => {
+      const data = encodeOpeningBook([{ fen: START, uci: "e2e4", weight: 1 }]);
+      // Point the move at e2e5
+      new DataView(data).setUint16(8, (1 << 9) | (4 << 6) | (4 << 3) | 4);
+      expect(createOpeningBook(data).lookup(START)).toEqual([]);
+    });
+
+    it("reads the bundled book", () => {
+      const file = readFileSync("public/book.bin");
+      const book = createOpeningBook(
+        file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength)
+      );
+      expect(book.lookup(START).map((move) => move.san)).toContain("e4");
+    });
+  });
+
+  describe("pickBookMove", () => {
+    const moves = [
+      { san: "e4", uci: "e2e4", weight: 3 },
+      { san: "d4", uci: "d2d4", weight: 1 },
+      { san: "a3", uci: "a2a3", weight: 0 },
+    ];
+
+    it("picks in proportion to the weights", () => {
+      expect(pickBookMove(moves, () => 0)!.san).toBe("e4");
+      expect(pickBookMove(moves, () => 0.74)!.san).toBe("e4");
+      expect(pickBookMove(moves, () => 0.75)!.san).toBe("d4");
+      expect(pickBookMove(moves, () => 0.999)!.san).toBe("d4");
+    });
+
+    it("never picks moves with no weight", () => {
+      expect(pickBookMove([moves[2]])).toBeNull();
+      expect(pickBookMove([])).toBeNull();
+    });
+  });
+
+  describe("loadOpeningBook", () => {
+    it("makes the fetched book the active one", async () => {
+      const data = encodeOpeningBook([{ fen: START, uci: "e2e4", weight: 1 }]);
+      vi.spyOn(global, "fetch").mockResolvedValue(new Response(data));
+
+      const book = await loadOpeningBook("/book.bin");
+
+      expect(book!.size).toBe(1);
+      expect(getOpeningBook()).toBe(book);
+    });
+
+    it("resolves to null when the book can't be fetched", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(global, "fetch").mockResolvedValue(new Response("", { status: 404 }));
+
+      expect(await loadOpeningBook("/missing.bin")).toBeNull();
+      expect(getOpeningBook()).toBeNull();
+    });
+  });
+});
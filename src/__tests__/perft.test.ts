@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { divide, perft, PERFT_POSITIONS, runPerft } from "@/lib/perft";
+
+describe("perft", () => {
+  it("counts the start position's move tree", () => {
+    const chess = new Chess();
+    expect(perft(chess, 0)).toBe(1);
+    expect(perft(chess, 1)).toBe(20);
+    expect(perft(chess, 3)).toBe(8902);
+    // The position is left as it was
+    expect(chess.fen()).toBe(new Chess().fen());
+  });
+
+  // Castling, en passant, promotions and pins, kept shallow for speed
+  it.each(PERFT_POSITIONS.map((position) => [position.name, position] as const))(
+    "matches the known counts for %s",
+    (_name, position) => {
+      const chess = new Chess(position.fen);
+      expect(perft(chess, 1)).toBe(position.nodes[0]);
+      expect(perft(chess, 2)).toBe(position.nodes[1]);
+    }
+  );
+
+  it("splits counts by root move in UCI notation", () => {
+    const counts = divide(new Chess(), 2);
+    expect(Object.keys(counts)).toHaveLength(20);
+    expect(counts.e2e4).toBe(20);
+    expect(Object.values(counts).reduce((a, b) => a + b, 0)).toBe(400);
+  });
+
+  it("reports each position's result", () => {
+    const results = runPerft(2, PERFT_POSITIONS.slice(0, 2));
+    expect(results.map((result) => result.passed)).toEqual([true, true]);
+    expect(results[1]).toMatchObject({ name: "Kiwipete", depth: 2, nodes: 2039 });
+  });
+
+  it("fails positions whose count is wrong", () => {
+    const [result] = runPerft(1, [{ name: "Broken", fen: new Chess().fen(), nodes: [21] }]);
+    expect(result.passed).toBe(false);
+  });
+});
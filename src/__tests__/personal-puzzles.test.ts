@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Chess } from "chess.js";
+import {
+  addPersonalPuzzles,
+  createPersonalPuzzles,
+  deletePersonalPuzzle,
+  getPersonalPuzzles,
+} from "@/lib/personal-puzzles";
+import type { MoveEvaluation, SavedGame, SavedMove } from "@/lib/game-storage";
+
+// Black's king walks into a knight fork, then white misses Nc7+
+function createGame(evaluation: Partial<MoveEvaluation> = {}): SavedGame {
+  const chess = new Chess("r2k4/8/8/3N4/8/8/8/4K3 b - - 0 1");
+  const moves: SavedMove[] = ["Ke8", "Kd2"].map((san) => {
+    const move = chess.move(san);
+    return {
+      san: move.san,
+      from: move.from,
+      to: move.to,
+      fen: chess.fen(),
+      fenBefore: move.before,
+      piece: move.piece,
+      color: move.color,
+      flags: move.flags,
+    };
+  });
+
+  return {
+    id: "game-1",
+    pgn: "",
+    moves,
+    metadata: {
+      date: "2026-03-01T12:00:00.000Z",
+      playerColor: "white",
+      opponentType: "ai",
+      result: "draw",
+      resultReason: "agreement",
+      totalMoves: 2,
+      source: "local",
+    },
+    analysis: {
+      evaluations: [
+        null,
+        {
+          centipawns: 0,
+          bestMove: "Nc7+",
+          candidates: [
+            { move: "Nc7+", centipawns: 500, line: "Nc7+ Kd7 Nxa8" },
+            { move: "Ke2", centipawns: 0, line: "Ke2" },
+          ],
+          classification: "blunder",
+          cpLoss: 500,
+          phase: "endgame",
+          ...evaluation,
+        },
+      ],
+      summary: {
+        accuracy: 50,
+        brilliant: 0,
+        great: 0,
+        good: 0,
+        inaccuracies: 0,
+        mistakes: 0,
+        blunders: 1,
+      },
+      analyzedAt: new Date().toISOString(),
+    },
+  };
+}
+
+describe("personal-puzzles", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("createPersonalPuzzles", () => {
+    it("turns a blunder with a unique winning move into a puzzle", () => {
+      const game = createGame();
+      const [puzzle] = createPersonalPuzzles(game, 1350);
+
+      expect(puzzle).toMatchObject({
+        id: "mine_game-1_1",
+        fen: game.moves[0].fenBefore,
+        // The opponent's move sets the scene, then the player finds the fork
+        moves: ["d8e8", "d5c7"],
+        rating: 1350,
+        themes: ["fork", "hangingPiece", "endgame"],
+      });
+      expect(puzzle.description).toContain("you played Kd2");
+    });
+
+    it("skips positions where the best move doesn't clearly win", () => {
+      expect(
+        createPersonalPuzzles(
+          createGame({
+            candidates: [
+              { move: "Nc7+", centipawns: 80, line: "Nc7+" },
+              { move: "Ke2", centipawns: 0, line: "Ke2" },
+            ],
+          }),
+          1200
+        )
+      ).toEqual([]);
+    });
+
+    it("skips positions with more than one winning move", () => {
+      expect(
+        createPersonalPuzzles(
+          createGame({
+            candidates: [
+              { move: "Nc7+", centipawns: 500, line: "Nc7+" },
+              { move: "Nb6", centipawns: 420, line: "Nb6" },
+            ],
+          }),
+          1200
+        )
+      ).toEqual([]);
+    });
+
+    it("only uses the player's mistakes and blunders", () => {
+      expect(createPersonalPuzzles(createGame({ classification: "inaccuracy" }), 1200)).toEqual(
+        []
+      );
+      const game = createGame();
+      game.metadata.playerColor = "black";
+      expect(createPersonalPuzzles(game, 1200)).toEqual([]);
+    });
+  });
+
+  describe("collection", () => {
+    it("adds each game's puzzles once", () => {
+      expect(addPersonalPuzzles(createGame(), 1200)).toBe(1);
+      expect(addPersonalPuzzles(createGame(), 1200)).toBe(0);
+      expect(getPersonalPuzzles()).toHaveLength(1);
+    });
+
+    it("deletes puzzles by id", () => {
+      addPersonalPuzzles(createGame(), 1200);
+      deletePersonalPuzzle("mine_game-1_1");
+      expect(getPersonalPuzzles()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { MAX_RATING, MIN_RATING } from "@/lib/chess-engine";
+import { createEvaluator, evaluateBoard } from "@/lib/evaluation";
+import {
+  DEFAULT_PERSONALITY,
+  describeOpponent,
+  getPersonality,
+  PERSONALITIES,
+} from "@/lib/personalities";
+
+describe("personalities", () => {
+  it("gives every personality a name, description and rating", () => {
+    const ids = PERSONALITIES.map((personality) => personality.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const personality of PERSONALITIES) {
+      expect(personality.name).toBeTruthy();
+      expect(personality.description).toBeTruthy();
+      expect(personality.rating).toBeGreaterThanOrEqual(MIN_RATING);
+      expect(personality.rating).toBeLessThanOrEqual(MAX_RATING);
+    }
+  });
+
+  it("falls back to the standard personality", () => {
+    expect(getPersonality("hustler").id).toBe("hustler");
+    expect(getPersonality("berserker").id).toBe(DEFAULT_PERSONALITY);
+    expect(getPersonality().id).toBe(DEFAULT_PERSONALITY);
+  });
+
+  it("evaluates like the default engine in the standard style", () => {
+    const chess = new Chess("r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3");
+    expect(createEvaluator(getPersonality("standard").weights)(chess)).toBe(
+      evaluateBoard(chess)
+    );
+  });
+
+  it("makes the attacker keener than others to bring pieces to the king", () => {
+    // The same queen beside the black king, or out on the queenside
+    const near = new Chess("r1b2rk1/ppp2ppp/2n4Q/8/8/8/PPP2PPP/R1B2RK1 w - - 0 1");
+    const far = new Chess("r1b2rk1/ppp2ppp/2n5/Q7/8/8/PPP2PPP/R1B2RK1 w - - 0 1");
+    const preference = (id: string) => {
+      const evaluate = createEvaluator(getPersonality(id).weights);
+      return evaluate(near) - evaluate(far);
+    };
+    expect(preference("attacker")).toBeGreaterThan(preference("positional"));
+    expect(preference("attacker")).toBeGreaterThan(preference("standard"));
+  });
+
+  it("makes the grinder keen to trade when ahead", () => {
+    const traded = new Chess("4k3/pppp4/8/8/8/8/PPPP4/3NK3 w - - 0 1");
+    expect(createEvaluator(getPersonality("grinder").weights)(traded)).toBeGreaterThan(
+      evaluateBoard(traded)
+    );
+  });
+
+  describe("describeOpponent", () => {
+    it("names the personality and rating", () => {
+      expect(describeOpponent({ aiPersonality: "attacker", aiRating: 1500 })).toBe(
+        "Blaze (1500)"
+      );
+    });
+
+    it("describes games from before personalities", () => {
+      expect(describeOpponent({ aiDifficulty: "beginner" })).toBe("AI (beginner)");
+      expect(describeOpponent({})).toBe("AI");
+    });
+  });
+});
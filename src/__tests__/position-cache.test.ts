@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createPositionCache,
+  normalizeFen,
+  withPositionCache,
+  type CacheCounters,
+  type CacheStore,
+  type CachedPosition,
+} from "@/lib/position-cache";
+import type { EngineProvider, PositionAnalysis } from "@/lib/engine-provider";
+
+const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const AFTER_E4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1";
+
+function analysis(depth: number, moves: string[] = ["e4", "d4", "Nf3"]): PositionAnalysis {
+  return {
+    lines: moves.map((move, i) => ({ move, score: 30 - i * 10, pv: [move] })),
+    depth,
+  };
+}
+
+// A store kept in memory, standing in for IndexedDB
+function createMemoryStore(initial: CachedPosition[] = []) {
+  const saved = new Map(initial.map((entry) => [entry.key, entry]));
+  let counters: CacheCounters = { hits: 0, misses: 0 };
+  const store: CacheStore = {
+    load: async () => ({ entries: Array.from(saved.values()), counters }),
+    write: vi.fn(async (put: CachedPosition[], remove: string[], next: CacheCounters) => {
+      put.forEach((entry) => saved.set(entry.key, { ...entry }));
+      remove.forEach((key) => saved.delete(key));
+      counters = next;
+    }),
+    clear: async () => saved.clear(),
+  };
+  return { store, saved };
+}
+
+describe("position-cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("normalizeFen", () => {
+    it("drops the move counters", () => {
+      expect(normalizeFen(START)).toBe("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -");
+      expect(normalizeFen(START.replace("0 1", "12 40"))).toBe(normalizeFen(START));
+    });
+  });
+
+  describe("createPositionCache", () => {
+    it("returns what was stored for the same position and engine", () => {
+      const cache = createPositionCache(null);
+      cache.set(START, "built-in", 3, analysis(4));
+
+      expect(cache.get(START.replace("0 1", "4 9"), "built-in", 3)).toEqual(analysis(4));
+      expect(cache.get(START, "server", 3)).toBeNull();
+      expect(cache.get(AFTER_E4, "built-in", 3)).toBeNull();
+    });
+
+    it("serves fewer lines than were stored, but not more", () => {
+      const cache = createPositionCache(null);
+      cache.set(START, "built-in", 1, analysis(4, ["e4"]));
+
+      expect(cache.get(START, "built-in", 3)).toBeNull();
+      cache.set(START, "built-in", 3, analysis(4));
+      expect(cache.get(START, "built-in", 1)!.lines).toEqual([analysis(4).lines[0]]);
+    });
+
+    it("keeps a deeper analysis over a shallower one", () => {
+      const cache = createPositionCache(null);
+      cache.set(START, "server", 3, analysis(18));
+      cache.set(START, "server", 3, analysis(10));
+
+      expect(cache.get(START, "server", 3)!.depth).toBe(18);
+    });
+
+    it("evicts the least recently used positions", () => {
+      const cache = createPositionCache(null, 2);
+      const third = "8/8/8/8/8/8/8/K6k w - - 0 1";
+      cache.set(START, "built-in", 1, analysis(4));
+      cache.set(AFTER_E4, "built-in", 1, analysis(4));
+      cache.get(START, "built-in", 1);
+      cache.set(third, "built-in", 1, analysis(4));
+
+      expect(cache.stats().entries).toBe(2);
+      expect(cache.get(AFTER_E4, "built-in", 1)).toBeNull();
+      expect(cache.get(START, "built-in", 1)).not.toBeNull();
+    });
+
+    it("counts hits and misses", () => {
+      const cache = createPositionCache(null);
+      expect(cache.stats()).toEqual({ hits: 0, misses: 0, entries: 0, hitRate: null });
+
+      cache.get(START, "built-in", 1);
+      cache.set(START, "built-in", 1, analysis(4));
+      cache.get(START, "built-in", 1);
+      cache.get(START, "built-in", 1);
+
+      expect(cache.stats()).toEqual({ hits: 2, misses: 1, entries: 1, hitRate: (2 / 3) * 100 });
+    });
+
+    it("empties on clear", async () => {
+      const cache = createPositionCache(null);
+      cache.set(START, "built-in", 1, analysis(4));
+      await cache.clear();
+
+      expect(cache.stats()).toEqual({ hits: 0, misses: 0, entries: 0, hitRate: null });
+    });
+  });
+
+  describe("persistence", () => {
+    it("loads stored entries and counters", async () => {
+      const writer = createMemoryStore();
+      const first = createPositionCache(writer.store);
+      await first.ready;
+      first.set(START, "built-in", 3, analysis(4));
+      first.get(START, "built-in", 3);
+      // Written in one batch once things go quiet
+      await vi.waitFor(() => expect(writer.store.write).toHaveBeenCalledTimes(1), {
+        timeout: 3000,
+      });
+
+      const second = createPositionCache(writer.store);
+      await second.ready;
+      expect(second.get(START, "built-in", 3)).toEqual(analysis(4));
+      expect(second.stats()).toMatchObject({ hits: 2, entries: 1 });
+    });
+
+    it("batches writes and removes evicted entries from storage", async () => {
+      vi.useFakeTimers();
+      const { store, saved } = createMemoryStore();
+      const cache = createPositionCache(store, 1);
+      await cache.ready;
+
+      cache.set(START, "built-in", 1, analysis(4));
+      cache.set(AFTER_E4, "built-in", 1, analysis(4));
+      expect(store.write).not.toHaveBeenCalled();
+
+      await vi.runAllTimersAsync();
+      expect(store.write).toHaveBeenCalledTimes(1);
+      expect(Array.from(saved.keys())).toEqual([`built-in|${normalizeFen(AFTER_E4)}`]);
+    });
+
+    it("works without storage when loading fails", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const cache = createPositionCache({
+        load: () => Promise.reject(new Error("blocked")),
+        write: async () => {},
+        clear: async () => {},
+      });
+      await cache.ready;
+
+      cache.set(START, "built-in", 1, analysis(4));
+      expect(cache.get(START, "built-in", 1)).not.toBeNull();
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("withPositionCache", () => {
+    it("only asks the provider about new positions", async () => {
+      const provider: EngineProvider = {
+        name: "fake",
+        analyse: vi.fn(async () => analysis(12)),
+      };
+      const cached = withPositionCache(provider, createPositionCache(null));
+
+      await cached.analyse(START, 3);
+      const again = await cached.analyse(START, 3);
+      await cached.analyse(AFTER_E4, 3);
+
+      expect(again).toEqual(analysis(12));
+      expect(provider.analyse).toHaveBeenCalledTimes(2);
+    });
+
+    it("stores fallback analyses under the engine that answered", async () => {
+      const provider: EngineProvider = {
+        name: "server",
+        analyse: vi.fn(async () => ({ ...analysis(4), engine: "built-in" })),
+      };
+      const cache = createPositionCache(null);
+      const cached = withPositionCache(provider, cache);
+
+      await cached.analyse(START, 3);
+      await cached.analyse(START, 3);
+
+      expect(cache.get(START, "server", 3)).toBeNull();
+      expect(cache.get(START, "built-in", 3)).toEqual(analysis(4));
+      expect(provider.analyse).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't cache positions without moves", async () => {
+      const provider: EngineProvider = { name: "fake", analyse: vi.fn(async () => null) };
+      const cached = withPositionCache(provider, createPositionCache(null));
+
+      await cached.analyse(START, 1);
+      await cached.analyse(START, 1);
+
+      expect(provider.analyse).toHaveBeenCalledTimes(2);
+    });
+  });
+});
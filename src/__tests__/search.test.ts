@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { searchPosition, searchPositionAsync, type SearchOptions } from "@/lib/search";
+import { createTranspositionTable } from "@/lib/transposition-table";
+import { MATE_SCORE } from "@/lib/evaluation";
+
+const PIECE_VALUES: Record<string, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 0,
+};
+
+// Plain material count, white's perspective (the search scores
+// checkmate and draws itself)
+function materialEval(chess: Chess): number {
+  let score = 0;
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (!piece) continue;
+      const value = PIECE_VALUES[piece.type];
+      score += piece.color === "w" ? value : -value;
+    }
+  }
+  return score;
+}
+
+function options(overrides: Partial<SearchOptions> = {}): SearchOptions {
+  return {
+    evaluate: materialEval,
+    pieceValues: PIECE_VALUES,
+    table: createTranspositionTable(1 << 12),
+    maxDepth: 2,
+    ...overrides,
+  };
+}
+
+describe("search", () => {
+  it("returns null when there are no legal moves", () => {
+    // Fool's mate - white is checkmated
+    const chess = new Chess(
+      "rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3"
+    );
+    expect(searchPosition(chess, options())).toBeNull();
+  });
+
+  it("finds mate in one", () => {
+    const chess = new Chess("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1");
+    const result = searchPosition(chess, options());
+    expect(result?.bestMove).toBe("Ra8#");
+    expect(result?.score).toBe(MATE_SCORE - 1);
+  });
+
+  it("scores a forced mate by its distance", () => {
+    // 1. Kf7 Kh7 2. Rh1#
+    const chess = new Chess("7k/8/5K2/8/8/8/8/6R1 w - - 0 1");
+    const result = searchPosition(chess, options({ maxDepth: 4 }));
+    expect(result?.bestMove).toBe("Kf7");
+    expect(result?.score).toBe(MATE_SCORE - 3);
+  });
+
+  it("prefers mate in one over a slower mate", () => {
+    // Rh1# is immediate; Kf7 also mates, a move later
+    const chess = new Chess("7k/5K2/8/8/8/8/8/6R1 w - - 0 1");
+    const result = searchPosition(chess, options({ maxDepth: 4 }));
+    expect(result?.bestMove).toBe("Rh1#");
+    expect(result?.score).toBe(MATE_SCORE - 1);
+  });
+
+  it("scores black's mates as negative", () => {
+    const chess = new Chess("r5k1/8/8/8/8/8/5PPP/6K1 b - - 0 1");
+    const result = searchPosition(chess, options({ maxDepth: 3 }));
+    expect(result?.bestMove).toBe("Ra1#");
+    expect(result?.score).toBe(-(MATE_SCORE - 1));
+  });
+
+  it("wins a hanging piece", () => {
+    const chess = new Chess("4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1");
+    const result = searchPosition(chess, options());
+    expect(result?.bestMove).toBe("Rxd5");
+  });
+
+  it("does not grab a defended pawn at the horizon", () => {
+    // At depth 1 Qxe5+ wins a pawn unless the search looks past the
+    // horizon and sees ...dxe5
+    const chess = new Chess("4k3/8/3p4/4p3/8/8/4Q3/4K3 w - - 0 1");
+    const result = searchPosition(chess, options({ maxDepth: 1 }));
+    expect(result?.bestMove).not.toBe("Qxe5+");
+    expect(result!.score).toBeGreaterThan(500);
+  });
+
+  it("does not trade its queen for a defended knight", () => {
+    const chess = new Chess("4k3/8/4p3/3n4/8/8/3Q4/4K3 w - - 0 1");
+    const result = searchPosition(chess, options({ maxDepth: 1 }));
+    expect(result?.bestMove).not.toBe("Qxd5");
+  });
+
+  it("returns a principal variation starting with the best move", () => {
+    const chess = new Chess(
+      "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3"
+    );
+    const result = searchPosition(chess, options({ maxDepth: 3 }));
+    expect(result).not.toBeNull();
+    expect(result!.depth).toBe(3);
+    expect(result!.pv[0]).toBe(result!.bestMove);
+    expect(result!.nodes).toBeGreaterThan(0);
+  });
+
+  describe("multi-PV", () => {
+    const fen = "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3";
+
+    it("returns the requested number of lines, best first", () => {
+      const result = searchPosition(
+        new Chess(fen),
+        options({ maxDepth: 3, multiPv: 3 })
+      );
+      expect(result!.lines).toHaveLength(3);
+      expect(result!.lines[0].move).toBe(result!.bestMove);
+      const scores = result!.lines.map((line) => line.score);
+      expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+      for (const line of result!.lines) {
+        expect(line.pv[0]).toBe(line.move);
+      }
+      expect(new Set(result!.lines.map((line) => line.move)).size).toBe(3);
+    });
+
+    it("scores the best line as a single-line search does", () => {
+      const single = searchPosition(new Chess(fen), options({ maxDepth: 3 }));
+      const multi = searchPosition(
+        new Chess(fen),
+        options({ maxDepth: 3, multiPv: 3 })
+      );
+      expect(multi!.score).toBe(single!.score);
+      expect(single!.lines).toHaveLength(1);
+    });
+
+    it("scores black's candidates from white's perspective", () => {
+      // Black can take the rook for free; the knight is defended
+      const chess = new Chess("4k3/8/8/3q4/8/1N1R4/8/4K3 b - - 0 1");
+      const result = searchPosition(chess, options({ maxDepth: 2, multiPv: 2 }));
+      expect(result!.lines[0].move).toBe("Qxd3");
+      expect(result!.lines[0].score).toBeLessThan(result!.lines[1].score);
+    });
+
+    it("returns fewer lines when there are fewer legal moves", () => {
+      const chess = new Chess("7k/8/8/8/8/8/1q6/K7 w - - 0 1");
+      const result = searchPosition(chess, options({ multiPv: 3 }));
+      expect(result!.lines).toHaveLength(1);
+    });
+  });
+
+  it("leaves the board as it found it", () => {
+    const chess = new Chess(
+      "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3"
+    );
+    const fen = chess.fen();
+    searchPosition(chess, options({ maxDepth: 3 }));
+    expect(chess.fen()).toBe(fen);
+    expect(chess.history()).toHaveLength(0);
+  });
+
+  it("stops at the deadline but always completes depth 1", () => {
+    const chess = new Chess();
+    const result = searchPosition(
+      chess,
+      options({ maxDepth: 30, deadline: Date.now() })
+    );
+    expect(result).not.toBeNull();
+    expect(result!.depth).toBeGreaterThanOrEqual(1);
+    expect(result!.depth).toBeLessThan(30);
+  });
+
+  describe("searchPositionAsync", () => {
+    it("finds the same move as the synchronous search", async () => {
+      const fen = "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1";
+      const result = await searchPositionAsync(new Chess(fen), options({ maxDepth: 3 }));
+      expect(result).toMatchObject({ bestMove: "Ra8#", depth: 1 });
+    });
+
+    it("stops mid-iteration when asked to", async () => {
+      let stop = false;
+      const search = searchPositionAsync(
+        new Chess(),
+        options({ maxDepth: 30, shouldStop: () => stop })
+      );
+      // The flag can only be set if the search hands back control
+      setTimeout(() => (stop = true), 300);
+      const startTime = Date.now();
+      const result = await search;
+
+      expect(Date.now() - startTime).toBeLessThan(1500);
+      expect(result!.depth).toBeGreaterThanOrEqual(1);
+      expect(result!.depth).toBeLessThan(30);
+    }, 10000);
+  });
+});
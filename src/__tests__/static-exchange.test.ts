@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  exchangeValue,
+  hangingValue,
+  isSacrifice,
+  materialGivenUp,
+} from "@/lib/static-exchange";
+
+describe("static-exchange", () => {
+  describe("exchangeValue", () => {
+    it("wins an undefended piece outright", () => {
+      expect(exchangeValue("4k3/8/8/3n4/8/8/8/3RK3 w - - 0 1", "d1", "d5")).toBe(320);
+    });
+
+    it("loses the attacker when the target is defended", () => {
+      // Knight takes a pawn defended by a pawn
+      expect(exchangeValue("4k3/8/2p5/3p4/8/4N3/8/4K3 w - - 0 1", "e3", "d5")).toBe(-220);
+    });
+
+    it("counts pieces lined up behind the first attacker", () => {
+      // Rooks doubled on the d-file against a knight defended once
+      const fen = "3rk3/8/8/3n4/8/8/3R4/3RK3 w - - 0 1";
+      expect(exchangeValue(fen, "d2", "d5")).toBe(320);
+    });
+
+    it("loses the queen for a defended pawn", () => {
+      expect(exchangeValue("3rk3/8/8/3p4/8/8/8/3QK3 w - - 0 1", "d1", "d5")).toBe(-800);
+    });
+
+    it("lets the defender stop when recapturing would lose more", () => {
+      // Rook takes a pawn only the queen defends; Qxd5 would lose the
+      // queen to the second rook, so black leaves it at a pawn
+      const fen = "3qk3/8/8/3p4/8/8/3R4/3RK3 w - - 0 1";
+      expect(exchangeValue(fen, "d2", "d5")).toBe(100);
+    });
+
+    it("scores quiet moves to attacked squares", () => {
+      // Bishop steps onto a square a pawn covers
+      expect(exchangeValue("4k3/8/2p5/8/8/8/8/4KB2 w - - 0 1", "f1", "b5")).toBe(-330);
+    });
+
+    it("never has a king take a defended piece", () => {
+      const fen = "4k3/8/8/8/2p5/3p4/4K3/8 w - - 0 1";
+      expect(hangingValue(fen, "d3")).toBe(0);
+      expect(exchangeValue("4k3/8/2p5/3p4/4K3/8/8/8 w - - 0 1", "e4", "d5")).toBeLessThan(0);
+    });
+  });
+
+  describe("hangingValue", () => {
+    it("is the piece's value when nothing defends it", () => {
+      expect(hangingValue("3qk3/8/8/8/8/8/3B4/7K w - - 0 1", "d2")).toBe(330);
+    });
+
+    it("is zero for defended and unattacked pieces", () => {
+      expect(hangingValue("3qk3/8/8/8/8/8/3B4/3K4 w - - 0 1", "d2")).toBe(0);
+      expect(hangingValue("4k3/8/8/8/8/8/3B4/7K w - - 0 1", "d2")).toBe(0);
+    });
+
+    it("is what's won by taking with a cheaper piece", () => {
+      // A defended knight attacked by a pawn still loses 220
+      expect(hangingValue("4k3/8/8/4p3/3N4/8/8/3RK3 w - - 0 1", "d4")).toBe(220);
+    });
+  });
+
+  describe("materialGivenUp", () => {
+    it("is zero for an even trade", () => {
+      // Knight takes knight, pawn takes back
+      expect(materialGivenUp("4k3/2p5/3n4/8/4N3/8/8/4K3 w - - 0 1", "Nxd6+")).toBe(0);
+    });
+
+    it("counts a piece left en prise elsewhere", () => {
+      // Moving the king away leaves the bishop to the queen
+      expect(materialGivenUp("3qk3/8/8/8/8/8/3B4/2K5 w - - 0 1", "Kb2")).toBe(330);
+    });
+
+    it("is negative when the move wins material", () => {
+      expect(materialGivenUp("4k3/8/8/3n4/8/8/8/3RK3 w - - 0 1", "Rxd5")).toBe(-320);
+    });
+
+    it("doesn't count pieces that were already en prise", () => {
+      // e5 forks the knight and bishop; whatever white does, one is lost
+      const fen = "4k3/8/3p4/4p3/3N1B2/8/P7/R3K3 w - - 0 2";
+      expect(materialGivenUp(fen, "Kd2")).toBe(0);
+      expect(materialGivenUp(fen, "Nf3")).toBe(0);
+    });
+  });
+
+  describe("isSacrifice", () => {
+    it("detects the classic bishop sacrifice on h7", () => {
+      const fen = "r1bq1rk1/pppn1ppp/4p3/3pP3/1b1P4/2NB1N2/PPP2PPP/R2QK2R w KQ - 0 1";
+      expect(isSacrifice(fen, "Bxh7+")).toBe(true);
+    });
+
+    it("detects a quiet piece offer", () => {
+      // Nd5 puts the knight where a pawn takes it
+      const fen = "4k3/8/4p3/8/8/2N5/8/4K3 w - - 0 1";
+      expect(isSacrifice(fen, "Nd5")).toBe(true);
+    });
+
+    it("doesn't count trades or pawn offers", () => {
+      expect(isSacrifice("4k3/2p5/3n4/8/4N3/8/8/4K3 w - - 0 1", "Nxd6+")).toBe(false);
+      expect(isSacrifice("4k3/8/8/2p5/8/8/3P4/4K3 w - - 0 1", "d4")).toBe(false);
+    });
+
+    it("doesn't count quiet replies to a fork", () => {
+      const fen = "4k3/8/3p4/4p3/3N1B2/8/P7/R3K3 w - - 0 2";
+      for (const san of ["Kd2", "Nf3", "Be3", "Nf5"]) {
+        expect(isSacrifice(fen, san)).toBe(false);
+      }
+    });
+
+    it("doesn't count winning captures of defended pieces", () => {
+      // Pawn takes a knight the queen defends
+      expect(isSacrifice("3qk3/8/8/3n4/4P3/8/8/4K3 w - - 0 1", "exd5")).toBe(false);
+    });
+  });
+});
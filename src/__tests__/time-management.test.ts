@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import {
+  analyzeTimeUsage,
+  describeTimeCorrelation,
+  getMoveTimes,
+  parseClockTimes,
+  parseTimeControl,
+  summarizeTimeManagement,
+} from "@/lib/time-management";
+import type {
+  MoveClassification,
+  MoveEvaluation,
+  SavedGame,
+  SavedMove,
+} from "@/lib/game-storage";
+
+const SANS = ["e4", "e5", "Nf3", "Nc6", "Bc4", "Bc5", "c3", "Nf6"];
+
+function createGame(clocks: (number | undefined)[], pgn = ""): SavedGame {
+  const chess = new Chess();
+  const moves: SavedMove[] = SANS.map((san, i) => {
+    const move = chess.move(san);
+    return {
+      san: move.san,
+      from: move.from,
+      to: move.to,
+      fen: chess.fen(),
+      fenBefore: move.before,
+      piece: move.piece,
+      color: move.color,
+      flags: move.flags,
+      clock: clocks[i],
+    };
+  });
+
+  return {
+    id: "game-1",
+    pgn,
+    moves,
+    metadata: {
+      date: "2026-03-01T12:00:00.000Z",
+      playerColor: "white",
+      opponentType: "human",
+      result: "draw",
+      resultReason: "draw",
+      totalMoves: 4,
+      source: "lichess",
+      timeControl: { initial: 60, increment: 0 },
+    },
+  };
+}
+
+function evaluation(classification: MoveClassification, accuracy: number): MoveEvaluation {
+  return { centipawns: 0, bestMove: "e4", classification, cpLoss: 0, accuracy };
+}
+
+function withAnalysis(game: SavedGame, evaluations: (MoveEvaluation | null)[]): SavedGame {
+  return {
+    ...game,
+    analysis: {
+      evaluations,
+      summary: {
+        accuracy: 80,
+        brilliant: 0,
+        great: 0,
+        good: 0,
+        inaccuracies: 0,
+        mistakes: 0,
+        blunders: 0,
+      },
+      criticalMoments: [{ index: 6, kind: "onlyMove", bestMove: "d4", bestLine: "d4" }],
+      analyzedAt: new Date().toISOString(),
+    },
+  };
+}
+
+describe("time-management", () => {
+  describe("parseClockTimes", () => {
+    it("reads [%clk] comments in order", () => {
+      const pgn =
+        '[TimeControl "180+2"]\n\n1. e4 { [%clk 0:03:00] } 1... e5 { [%clk 0:02:58.5] } ' +
+        "2. Nf3 { [%clk 1:00:01] } *";
+      expect(parseClockTimes(pgn)).toEqual([180, 178.5, 3601]);
+    });
+
+    it("returns nothing for PGNs without clocks", () => {
+      expect(parseClockTimes("1. e4 e5 *")).toEqual([]);
+    });
+  });
+
+  describe("parseTimeControl", () => {
+    it("reads the TimeControl header", () => {
+      expect(parseTimeControl('[TimeControl "180+2"]')).toEqual({ initial: 180, increment: 2 });
+      expect(parseTimeControl('[TimeControl "-"]')).toBeUndefined();
+    });
+  });
+
+  describe("getMoveTimes", () => {
+    it("takes each side's time from their previous clock reading", () => {
+      const game = createGame([58, 59, 50, 57, 20, 40, 19, 39]);
+      expect(getMoveTimes(game)).toEqual([2, 1, 8, 2, 30, 17, 1, 1]);
+    });
+
+    it("adds the increment back", () => {
+      const game = createGame([60, 60, 57, 58]);
+      game.metadata.timeControl = { initial: 60, increment: 2 };
+      expect(getMoveTimes(game).slice(0, 4)).toEqual([2, 2, 5, 4]);
+    });
+
+    it("falls back to the PGN's time control", () => {
+      const game = createGame([55, 58], '[TimeControl "60+0"]');
+      delete game.metadata.timeControl;
+      expect(getMoveTimes(game).slice(0, 2)).toEqual([5, 2]);
+    });
+
+    it("skips moves without a reading and the move after", () => {
+      const game = createGame([58, 59, undefined, 57, 40, 55]);
+      expect(getMoveTimes(game).slice(0, 6)).toEqual([2, 1, null, 2, null, 2]);
+    });
+  });
+
+  describe("analyzeTimeUsage", () => {
+    it("returns null without clock times", () => {
+      expect(analyzeTimeUsage(createGame([]))).toBeNull();
+    });
+
+    it("flags time trouble and rushed critical moments", () => {
+      // White: 2s, 8s, 38s, then 3s at the critical move with 9s left
+      const game = withAnalysis(createGame([58, 59, 50, 57, 12, 40, 9, 39]), [
+        evaluation("good", 90),
+        null,
+        evaluation("good", 95),
+        null,
+        evaluation("good", 100),
+        null,
+        evaluation("blunder", 20),
+        null,
+      ]);
+      const usage = analyzeTimeUsage(game)!;
+
+      expect(usage.moves.map((move) => move.index)).toEqual([0, 2, 4, 6]);
+      expect(usage.averageTime).toBe(12.75);
+      expect(usage.timeTroubleMoves).toBe(1);
+      expect(usage.timeTroubleErrors).toBe(1);
+      expect(usage.hastyCritical).toBe(1);
+      expect(usage.correlation).toBeGreaterThan(0.3);
+    });
+
+    it("works on games that haven't been analysed", () => {
+      const usage = analyzeTimeUsage(createGame([58, 59, 50, 57]))!;
+      expect(usage.moves).toHaveLength(2);
+      expect(usage.moves[0].classification).toBeUndefined();
+      expect(usage.correlation).toBeNull();
+    });
+  });
+
+  describe("describeTimeCorrelation", () => {
+    it("describes the direction of the effect", () => {
+      expect(describeTimeCorrelation(0.6)).toContain("better when you took your time");
+      expect(describeTimeCorrelation(-0.5)).toContain("didn't lead to better moves");
+      expect(describeTimeCorrelation(0.1)).toContain("little difference");
+    });
+  });
+
+  describe("summarizeTimeManagement", () => {
+    it("returns null when no game has clock times", () => {
+      expect(summarizeTimeManagement([createGame([])])).toBeNull();
+    });
+
+    it("combines the games with clock times", () => {
+      const timed = withAnalysis(createGame([58, 59, 50, 57, 12, 40, 9, 39]), [
+        evaluation("good", 90),
+        null,
+        evaluation("mistake", 60),
+        null,
+        evaluation("good", 100),
+        null,
+        evaluation("blunder", 20),
+        null,
+      ]);
+      const stats = summarizeTimeManagement([timed, createGame([])])!;
+
+      expect(stats.games).toBe(1);
+      expect(stats.averageTime).toBe(12.75);
+      expect(stats.timeTroubleGames).toBe(1);
+      expect(stats.timeTroubleErrorShare).toBe(50);
+      expect(stats.hastyCriticalPerGame).toBe(1);
+      // Quick: the 2s, 8s and 3s moves; slow: the 38s move
+      expect(stats.fastAccuracy).toBeCloseTo((90 + 60 + 20) / 3);
+      expect(stats.slowAccuracy).toBe(100);
+    });
+  });
+});
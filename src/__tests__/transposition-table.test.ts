@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { createTranspositionTable } from "@/lib/transposition-table";
+
+describe("transposition-table", () => {
+  it("returns null for positions that were never stored", () => {
+    const table = createTranspositionTable(1024);
+    expect(table.probe(new Chess().hash())).toBeNull();
+  });
+
+  it("stores and retrieves an entry by Zobrist key", () => {
+    const table = createTranspositionTable(1024);
+    const key = new Chess().hash();
+    table.store({ key, depth: 3, score: 25, bound: "exact", bestMove: "e4" });
+
+    const entry = table.probe(key);
+    expect(entry).not.toBeNull();
+    expect(entry!.depth).toBe(3);
+    expect(entry!.score).toBe(25);
+    expect(entry!.bound).toBe("exact");
+    expect(entry!.bestMove).toBe("e4");
+  });
+
+  it("gives transposed move orders the same key", () => {
+    const a = new Chess();
+    a.move("Nf3");
+    a.move("Nf6");
+    a.move("d4");
+    const b = new Chess();
+    b.move("d4");
+    b.move("Nf6");
+    b.move("Nf3");
+    expect(a.hash()).toBe(b.hash());
+  });
+
+  it("caps the number of slots", () => {
+    const table = createTranspositionTable(1000);
+    expect(table.capacity()).toBe(512);
+
+    const chess = new Chess();
+    for (const move of chess.moves()) {
+      chess.move(move);
+      table.store({ key: chess.hash(), depth: 1, score: 0, bound: "exact" });
+      chess.undo();
+    }
+    expect(table.size()).toBeLessThanOrEqual(table.capacity());
+  });
+
+  it("keeps the deeper entry on a collision within the same search", () => {
+    // A single-slot table forces every key into the same index
+    const table = createTranspositionTable(1);
+    table.store({ key: "aaaa", depth: 6, score: 10, bound: "exact" });
+    table.store({ key: "bbbb", depth: 2, score: 20, bound: "exact" });
+
+    expect(table.probe("aaaa")?.score).toBe(10);
+    expect(table.probe("bbbb")).toBeNull();
+  });
+
+  it("replaces entries from an earlier search regardless of depth", () => {
+    const table = createTranspositionTable(1);
+    table.store({ key: "aaaa", depth: 6, score: 10, bound: "exact" });
+    table.newSearch();
+    table.store({ key: "bbbb", depth: 2, score: 20, bound: "lower" });
+
+    expect(table.probe("aaaa")).toBeNull();
+    expect(table.probe("bbbb")?.score).toBe(20);
+  });
+
+  it("keeps the previous best move when an update has none", () => {
+    const table = createTranspositionTable(16);
+    table.store({ key: "abcd", depth: 2, score: 0, bound: "exact", bestMove: "Nf3" });
+    table.store({ key: "abcd", depth: 3, score: -5, bound: "upper" });
+    expect(table.probe("abcd")?.bestMove).toBe("Nf3");
+  });
+
+  it("clear() empties the table", () => {
+    const table = createTranspositionTable(16);
+    table.store({ key: "abcd", depth: 2, score: 0, bound: "exact" });
+    table.clear();
+    expect(table.size()).toBe(0);
+    expect(table.probe("abcd")).toBeNull();
+  });
+});
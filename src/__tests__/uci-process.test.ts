@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createUciProcessProvider, type UciProcessProvider } from "@/lib/uci-process";
+import { MATE_SCORE } from "@/lib/evaluation";
+
+// A stand-in UCI engine with canned answers: white to move gets two lines
+// (one a mate against white), black to move a mate for black
+const FAKE_ENGINE = `
+const rl = require("readline").createInterface({ input: process.stdin });
+let turn = "w";
+rl.on("line", (line) => {
+  if (line === "uci") console.log("id name FakeFish 1\\nuciok");
+  else if (line === "isready") console.log("readyok");
+  else if (line.startsWith("position fen")) turn = line.split(" ")[3];
+  else if (line.startsWith("go") && turn === "w") {
+    console.log("info depth 1 multipv 1 score cp 10 pv d2d4");
+    console.log("info depth 12 multipv 1 score cp 90 lowerbound pv g1f3");
+    console.log("info depth 12 multipv 1 score cp 30 nodes 1000 pv e2e4 e7e5 g1f3");
+    console.log("info depth 12 multipv 2 score mate -3 pv f2f3 e7e5");
+    console.log("bestmove e2e4");
+  } else if (line.startsWith("go")) {
+    console.log("info depth 9 multipv 1 score mate 2 pv e7e5");
+    console.log("info depth 9 multipv 2 score cp 50 pv c7c5");
+    console.log("bestmove e7e5");
+  } else if (line === "quit") process.exit(0);
+});
+`;
+
+const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const AFTER_E4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1";
+
+describe("uci-process", () => {
+  let provider: UciProcessProvider | null = null;
+
+  afterEach(() => {
+    provider?.close();
+    provider = null;
+  });
+
+  function fakeEngine() {
+    provider = createUciProcessProvider(process.execPath, {
+      args: ["-e", FAKE_ENGINE],
+      timeout: 5000,
+    });
+    return provider;
+  }
+
+  it("reads the final lines of each multipv and converts them to SAN", async () => {
+    const analysis = await fakeEngine().analyse(START, 2);
+
+    expect(analysis!.depth).toBe(12);
+    expect(analysis!.lines).toEqual([
+      { move: "e4", score: 30, pv: ["e4", "e5", "Nf3"] },
+      { move: "f3", score: -(MATE_SCORE - 6), pv: ["f3", "e5"] },
+    ]);
+  });
+
+  it("reports scores from white's perspective when black is to move", async () => {
+    const analysis = await fakeEngine().analyse(AFTER_E4, 2);
+
+    expect(analysis!.lines.map((line) => line.score)).toEqual([
+      -(MATE_SCORE - 3),
+      -50,
+    ]);
+  });
+
+  it("sends the FEN on one line", async () => {
+    const analysis = await fakeEngine().analyse(START.replace(" w ", "\nw "), 2);
+    expect(analysis!.lines[0].move).toBe("e4");
+  });
+
+  it("takes its name from the engine once started", async () => {
+    const engine = fakeEngine();
+    await engine.analyse(START, 1);
+    expect(engine.name).toBe("FakeFish 1");
+  });
+
+  it("answers one request at a time", async () => {
+    const engine = fakeEngine();
+    const [white, black] = await Promise.all([
+      engine.analyse(START, 1),
+      engine.analyse(AFTER_E4, 1),
+    ]);
+    expect(white!.lines[0].move).toBe("e4");
+    expect(black!.lines[0].move).toBe("e5");
+  });
+
+  it("returns null without asking the engine when there are no moves", async () => {
+    provider = createUciProcessProvider("/nonexistent/engine");
+    const mated = "rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3";
+    expect(await provider.analyse(mated, 1)).toBeNull();
+  });
+
+  it("rejects when the engine can't be started", async () => {
+    provider = createUciProcessProvider("/nonexistent/engine");
+    await expect(provider.analyse(START, 1)).rejects.toThrow();
+  });
+});
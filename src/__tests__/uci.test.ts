@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "node:stream";
+import { Chess } from "chess.js";
+import { createUciEngine, runUci } from "@/lib/uci";
+
+// Feed commands through stdin-like and stdout-like streams, wait for a
+// bestmove per "go", then close the input and collect every line printed
+async function talk(commands: string[]): Promise<string[]> {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const searches = commands.filter((command) => command.startsWith("go")).length;
+  let text = "";
+  let answered: () => void;
+  const allAnswered = new Promise<void>((resolve) => (answered = resolve));
+  output.on("data", (chunk) => {
+    text += chunk;
+    if ((text.match(/^bestmove/gm) ?? []).length >= searches) answered();
+  });
+
+  const done = runUci(input, output);
+  for (const command of commands) input.write(`${command}\n`);
+  if (searches > 0) await allAnswered;
+  input.end();
+  await done;
+  return text.split("\n").filter(Boolean);
+}
+
+function bestMove(lines: string[]): string | undefined {
+  return lines.find((line) => line.startsWith("bestmove"))?.split(" ")[1];
+}
+
+describe("uci", () => {
+  it("identifies itself and its options", async () => {
+    const lines = await talk(["uci", "isready", "quit"]);
+    expect(lines[0]).toMatch(/^id name /);
+    expect(lines).toContain("option name UCI_LimitStrength type check default false");
+    expect(lines).toContain("option name UCI_Elo type spin default 2200 min 400 max 2200");
+    expect(lines.indexOf("uciok")).toBeLessThan(lines.indexOf("readyok"));
+  });
+
+  it("searches to a fixed depth with info lines", async () => {
+    const lines = await talk([
+      "position startpos moves e2e4 e7e5",
+      "go depth 2",
+      "isready",
+    ]);
+    const info = lines.filter((line) => line.startsWith("info depth"));
+    expect(info.map((line) => line.split(" ")[2])).toEqual(["1", "2"]);
+    expect(info[1]).toMatch(/score cp -?\d+ nodes \d+ time \d+ pv [a-h][1-8]/);
+
+    const move = bestMove(lines)!;
+    const chess = new Chess();
+    chess.move("e4");
+    chess.move("e5");
+    expect(() =>
+      chess.move({ from: move.slice(0, 2), to: move.slice(2, 4) })
+    ).not.toThrow();
+  }, 15000);
+
+  it("reports mates from the side to move's point of view", async () => {
+    const white = await talk([
+      "position fen 6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1",
+      "go depth 2",
+    ]);
+    expect(white.some((line) => line.includes("score mate 1 "))).toBe(true);
+    expect(bestMove(white)).toBe("a1a8");
+
+    const black = await talk([
+      "position fen r5k1/8/8/8/8/8/5PPP/6K1 b - - 0 1",
+      "go depth 2",
+    ]);
+    expect(black.some((line) => line.includes("score mate 1 "))).toBe(true);
+    expect(bestMove(black)).toBe("a8a1");
+  });
+
+  it("plays promotions given in the move list", async () => {
+    const lines = await talk([
+      "position fen 8/P7/8/8/8/8/8/k6K w - - 0 1 moves a7a8q a1b2",
+      "go depth 1",
+    ]);
+    expect(lines.some((line) => line.startsWith("info string"))).toBe(false);
+    expect(bestMove(lines)).toMatch(/^(a8|h1)/);
+  });
+
+  it("answers bestmove 0000 when there are no legal moves", async () => {
+    const lines = await talk([
+      "position fen rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3",
+      "go movetime 100",
+    ]);
+    expect(bestMove(lines)).toBe("0000");
+  });
+
+  it("runs queued searches in order", async () => {
+    const lines = await talk([
+      "position fen 6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1",
+      "go depth 1",
+      "position fen r5k1/8/8/8/8/8/5PPP/6K1 b - - 0 1",
+      "go depth 1",
+    ]);
+    const moves = lines.filter((line) => line.startsWith("bestmove"));
+    expect(moves).toEqual(["bestmove a1a8", "bestmove a8a1"]);
+  });
+
+  it("stops an infinite search and still answers", async () => {
+    const written: string[] = [];
+    const engine = createUciEngine((line) => written.push(line));
+
+    engine.handle("position startpos");
+    const startTime = Date.now();
+    engine.handle("go infinite");
+    // Long enough for one depth to take seconds; the timer only fires if
+    // the search lets it
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    engine.handle("stop");
+    await engine.idle();
+
+    expect(Date.now() - startTime).toBeLessThan(6500);
+    expect(written[written.length - 1]).toMatch(/^bestmove [a-h][1-8][a-h][1-8]$/);
+  }, 30000);
+
+  it("holds an infinite search's bestmove until stop", async () => {
+    const written: string[] = [];
+    const engine = createUciEngine((line) => written.push(line));
+
+    engine.handle("position fen 6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1");
+    engine.handle("go infinite");
+    // Mate in one is found at once, but the GUI hasn't asked for a move
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(written.some((line) => line.startsWith("info depth 1"))).toBe(true);
+    expect(written.some((line) => line.startsWith("bestmove"))).toBe(false);
+
+    engine.handle("stop");
+    await engine.idle();
+    expect(written[written.length - 1]).toBe("bestmove a1a8");
+  });
+
+  it("limits its strength with setoption", async () => {
+    const written: string[] = [];
+    const engine = createUciEngine((line) => written.push(line));
+
+    engine.handle("setoption name UCI_LimitStrength value true");
+    engine.handle("setoption name UCI_Elo value 1500");
+    engine.handle("setoption name UCI_Elo value grandmaster");
+    engine.handle("setoption name Hash value 64");
+    engine.handle("uci");
+
+    expect(written).toContain("info string invalid UCI_Elo grandmaster");
+    expect(written).toContain("info string unknown option Hash");
+    expect(written).toContain("option name UCI_LimitStrength type check default true");
+    expect(written.some((line) => line.includes("UCI_Elo type spin default 1500"))).toBe(true);
+  });
+
+  it("plays in the style set with setoption", async () => {
+    const written: string[] = [];
+    const engine = createUciEngine((line) => written.push(line));
+
+    engine.handle("setoption name Personality value Hustler");
+    engine.handle("setoption name Personality value berserker");
+    engine.handle("uci");
+    engine.handle("position startpos moves e2e4 e7e5");
+    engine.handle("go depth 1");
+    await engine.idle();
+
+    expect(written).toContain("info string invalid personality berserker");
+    expect(
+      written.some((line) => /^option name Personality .*default hustler .*var grinder/.test(line))
+    ).toBe(true);
+    expect(written[written.length - 1]).toMatch(/^bestmove [a-h][1-8][a-h][1-8]$/);
+  }, 15000);
+
+  it("rejects illegal positions and unknown commands", () => {
+    const written: string[] = [];
+    const engine = createUciEngine((line) => written.push(line));
+
+    engine.handle("position startpos moves e2e5");
+    engine.handle("register later");
+
+    expect(written).toEqual([
+      "info string invalid position startpos moves e2e5",
+      "info string unknown command register",
+    ]);
+  });
+});
@@ -123,7 +123,7 @@ ${blundersList}
 Provide coaching feedback in this structure:
 1. GAME SUMMARY (2-3 sentences about how the game went overall)
 2. WHAT YOU DID WELL (2-3 specific good moments with move references)
-3. KEY MISTAKES (the 2-3 most instructive errors — explain WHY the move was wrong in plain English)
+3. KEY MISTAKES (the 2-3 most instructive errors — explain WHY the move was wrong in plain English, and what the engine's best move or alternatives would have achieved)
 4. LESSON TO FOCUS ON (one specific chess concept they should study)
 5. PRACTICE SUGGESTION (one specific exercise)`;
 
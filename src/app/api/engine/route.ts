@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Chess } from "chess.js";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { getConfiguredEngine } from "@/lib/uci-process";
+import type { EngineStatus } from "@/lib/engine-provider";
+
+const MAX_MULTI_PV = 5;
+
+// The engine is configured at runtime, so GET mustn't be prerendered
+export const dynamic = "force-dynamic";
+
+// Whether an external engine is configured, so clients know to fall back
+// to the built-in one
+export async function GET() {
+  const engine = getConfiguredEngine();
+  const status: EngineStatus = engine
+    ? { available: true, name: engine.name }
+    : { available: false };
+  return NextResponse.json(status);
+}
+
+export async function POST(request: NextRequest) {
+  // Rate limit by IP - analysing a game takes a request per position
+  const ip = request.headers.get("x-forwarded-for") || "unknown";
+  const { allowed, resetIn } = checkRateLimit(`engine:${ip}`, 600, 10 * 60 * 1000);
+  if (!allowed) {
+    return NextResponse.json(
+      {
+        error: "Too many engine requests. Please wait before trying again.",
+        retryAfter: Math.ceil(resetIn / 1000),
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": String(Math.ceil(resetIn / 1000)) },
+      }
+    );
+  }
+
+  const engine = getConfiguredEngine();
+  if (!engine) {
+    return NextResponse.json(
+      { error: "No external engine is configured" },
+      { status: 503 }
+    );
+  }
+
+  let fen: string;
+  let multiPv: number;
+  try {
+    const body = await request.json();
+    fen = body?.fen;
+    multiPv = body?.multiPv ?? 1;
+    if (typeof fen !== "string") throw new Error("fen is required");
+    // Throws on an invalid FEN; normalised so stray whitespace (newlines
+    // included) never reaches the engine's input
+    fen = new Chess(fen).fen();
+  } catch {
+    return NextResponse.json(
+      { error: "A valid FEN is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(multiPv) || multiPv < 1 || multiPv > MAX_MULTI_PV) {
+    return NextResponse.json(
+      { error: `multiPv must be between 1 and ${MAX_MULTI_PV}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const analysis = await engine.analyse(fen, multiPv);
+    return NextResponse.json({ analysis });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Engine failed";
+    console.error("[engine] Error:", message);
+    return NextResponse.json(
+      { error: "Engine analysis failed. Please try again later." },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { Chess } from "chess.js";
+import { Chess, type Move } from "chess.js";
 import dynamic from "next/dynamic";
 import { motion } from "framer-motion";
 import {
@@ -15,6 +15,10 @@ import {
   ReferenceLine,
   Area,
   AreaChart,
+  BarChart,
+  Bar,
+  Cell,
+  type MouseHandlerDataParam,
 } from "recharts";
 import {
   ArrowLeft,
@@ -34,7 +38,11 @@ import {
   CircleAlert,
   CircleX,
   Bomb,
+  BookOpen,
   MessageSquare,
+  Flag,
+  GraduationCap,
+  Timer,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -43,13 +51,36 @@ import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
 import {
   getGameById,
+  getPlayerEvaluations,
+  getPuzzleStats,
   updateGame,
   type SavedGame,
   type MoveEvaluation,
   type MoveClassification,
   type GameAnalysis,
 } from "@/lib/game-storage";
-import { analyzeGame } from "@/lib/analysis-engine";
+import { createEngineService, EngineStoppedError } from "@/lib/engine-service";
+import { describeOpponent } from "@/lib/personalities";
+import { refreshWeaknessProfile } from "@/lib/motifs";
+import { addPersonalPuzzles } from "@/lib/personal-puzzles";
+import { describeMoment, findCriticalMoments } from "@/lib/critical-moments";
+import { getRetryPositions, isGoodRetry, recordSolvedMistake } from "@/lib/mistake-retry";
+import { analyzeTimeUsage, describeTimeCorrelation } from "@/lib/time-management";
+
+// Wrong tries before the answer is shown
+const MAX_RETRY_ATTEMPTS = 3;
+
+// How long a wrong try stays on the board before it's taken back (ms)
+const RETRY_TAKEBACK_DELAY = 800;
+
+interface RetryState {
+  queue: number[]; // move indices of the mistakes to retry
+  current: number; // position in the queue
+  status: "trying" | "checking" | "wrong" | "solved" | "revealed";
+  attempts: number;
+  solved: number; // solved so far this session
+  played?: string; // the last try, in SAN
+}
 
 const PlayableChessBoard = dynamic(
   () => import("@/components/PlayableChessBoard"),
@@ -66,10 +97,44 @@ const CLASSIFICATION_ICONS: Record<
   inaccuracy: { icon: CircleAlert, color: "text-yellow-400", label: "?!" },
   mistake: { icon: CircleX, color: "text-orange-400", label: "?" },
   blunder: { icon: Bomb, color: "text-red-400", label: "??" },
-  book: { icon: Check, color: "text-muted-foreground", label: "" },
+  book: { icon: BookOpen, color: "text-amber-600", label: "" },
   forced: { icon: Check, color: "text-muted-foreground", label: "" },
 };
 
+// Engine candidates other than the move actually played, e.g.
+// "Nf3 (+0.4), d4 (+0.3)"
+function describeAlternatives(evaluation: MoveEvaluation, played: string): string {
+  return (evaluation.candidates ?? [])
+    .filter((candidate) => candidate.move !== played)
+    .map((candidate) => `${candidate.move} (${formatEvaluation(candidate)})`)
+    .join(", ");
+}
+
+// "+1.3" in pawns, or "#3" / "#-2" for a forced mate ("#" once delivered)
+function formatEvaluation(evaluation: Pick<MoveEvaluation, "centipawns" | "mate">): string {
+  if (evaluation.mate !== undefined) {
+    return evaluation.mate === 0 ? "#" : `#${evaluation.mate}`;
+  }
+  const pawns = evaluation.centipawns / 100;
+  return `${pawns >= 0 ? "+" : ""}${pawns.toFixed(1)}`;
+}
+
+// "4:05" (or "1:02:30" from an hour up)
+function formatClock(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+// The chart point a click landed on, if it landed on one
+function clickedPoint<T>(data: T[], { activeTooltipIndex }: MouseHandlerDataParam): T | undefined {
+  return activeTooltipIndex == null ? undefined : data[Number(activeTooltipIndex)];
+}
+
 export default function GameAnalysisPage() {
   const params = useParams();
   const router = useRouter();
@@ -82,6 +147,7 @@ export default function GameAnalysisPage() {
   const [analyzing, setAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState({ current: 0, total: 0 });
   const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [engine] = useState(() => createEngineService());
 
   // Coaching state
   const [fetchingCoaching, setFetchingCoaching] = useState(false);
@@ -94,6 +160,13 @@ export default function GameAnalysisPage() {
   const [viewingIndex, setViewingIndex] = useState(-1);
   const [lastMove, setLastMove] = useState<{ from: string; to: string } | null>(null);
 
+  // Key moments walkthrough: which moment is shown, or null when not in it
+  const [momentIndex, setMomentIndex] = useState<number | null>(null);
+
+  // Learn from your mistakes: the positions being retried, or null when not
+  // retrying
+  const [retry, setRetry] = useState<RetryState | null>(null);
+
   // Load game
   useEffect(() => {
     const g = getGameById(gameId);
@@ -109,6 +182,11 @@ export default function GameAnalysisPage() {
     setLoading(false);
   }, [gameId]);
 
+  // Cancel any running analysis when leaving the page
+  useEffect(() => {
+    return () => engine.terminate();
+  }, [engine]);
+
   // Navigate to a specific move
   const goToMove = useCallback(
     (index: number) => {
@@ -121,6 +199,7 @@ export default function GameAnalysisPage() {
       }
       setPosition(tempChess.fen());
       setViewingIndex(index);
+      setRetry(null); // replaying the game ends a retry
       if (index >= 0 && game.moves[index]) {
         setLastMove({ from: game.moves[index].from, to: game.moves[index].to });
       } else {
@@ -147,6 +226,7 @@ export default function GameAnalysisPage() {
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (retry) return; // the board belongs to the retry
       if (e.key === "ArrowLeft") goBack();
       else if (e.key === "ArrowRight") goForward();
       else if (e.key === "Home") goToStart();
@@ -154,7 +234,7 @@ export default function GameAnalysisPage() {
     };
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [goBack, goForward, goToStart, goToEnd]);
+  }, [retry, goBack, goForward, goToStart, goToEnd]);
 
   // Run analysis
   const handleAnalyze = useCallback(async () => {
@@ -163,7 +243,7 @@ export default function GameAnalysisPage() {
     setAnalysisProgress({ current: 0, total: game.moves.length });
 
     try {
-      const result = await analyzeGame(
+      const result = await engine.analyzeGame(
         game.moves,
         game.metadata.playerColor,
         (current, total) => setAnalysisProgress({ current, total })
@@ -171,13 +251,16 @@ export default function GameAnalysisPage() {
       setAnalysis(result);
       // Save to storage
       updateGame(game.id, { analysis: result });
+      refreshWeaknessProfile();
+      addPersonalPuzzles({ ...game, analysis: result }, getPuzzleStats().rating);
       setGame({ ...game, analysis: result });
     } catch (err) {
+      if (err instanceof EngineStoppedError) return;
       console.error("[analysis] Failed:", err);
     } finally {
       setAnalyzing(false);
     }
-  }, [game, analyzing]);
+  }, [game, engine, analyzing]);
 
   // Get AI coaching
   const handleGetCoaching = useCallback(async () => {
@@ -188,19 +271,21 @@ export default function GameAnalysisPage() {
     // Build mistake/blunder descriptions
     const mistakes: string[] = [];
     const blunders: string[] = [];
-    analysis.evaluations.forEach((ev, i) => {
-      if (!ev) return;
+    getPlayerEvaluations({ ...game, analysis }).forEach(({ index: i, evaluation: ev }) => {
       const moveNum = Math.floor(i / 2) + 1;
       const side = i % 2 === 0 ? "" : "...";
       const san = game.moves[i]?.san || "";
+      const alternatives = describeAlternatives(ev, san);
+      const description =
+        `Move ${moveNum}${side} ${san} (lost ${ev.cpLoss}cp, best was ${ev.bestMove}` +
+        (ev.bestLine ? `, line: ${ev.bestLine}` : "") +
+        (alternatives ? `; engine alternatives: ${alternatives}` : "") +
+        (ev.motifs ? `; tactics: ${ev.motifs.join(", ")}` : "") +
+        ")";
       if (ev.classification === "mistake") {
-        mistakes.push(
-          `Move ${moveNum}${side} ${san} (lost ${ev.cpLoss}cp, best was ${ev.bestMove})`
-        );
+        mistakes.push(description);
       } else if (ev.classification === "blunder") {
-        blunders.push(
-          `Move ${moveNum}${side} ${san} (lost ${ev.cpLoss}cp, best was ${ev.bestMove})`
-        );
+        blunders.push(description);
       }
     });
 
@@ -243,10 +328,36 @@ export default function GameAnalysisPage() {
     return analysis.evaluations.map((ev, i) => ({
       move: i + 1,
       eval: ev ? ev.centipawns / 100 : null,
+      label: ev ? formatEvaluation(ev) : null,
       classification: ev?.classification || null,
     }));
   }, [analysis]);
 
+  // How the player used their clock (games imported with clock times)
+  const timeUsage = useMemo(() => {
+    if (!game) return null;
+    return analyzeTimeUsage(analysis ? { ...game, analysis } : game);
+  }, [game, analysis]);
+
+  const timeChartData = useMemo(() => {
+    return (timeUsage?.moves ?? []).map((move) => ({
+      move: move.index + 1,
+      seconds: Math.round(move.spent * 10) / 10,
+      clock: move.clock,
+      classification: move.classification ?? null,
+      timeTrouble: move.timeTrouble,
+    }));
+  }, [timeUsage]);
+
+  // The other side's summary (analyses from before both sides were
+  // analysed don't have one)
+  const opponentSummary = useMemo(() => {
+    if (!game || !analysis?.sides) return null;
+    return game.metadata.playerColor === "white"
+      ? analysis.sides.black
+      : analysis.sides.white;
+  }, [game, analysis]);
+
   // Build move pairs for display
   const movePairs = useMemo(() => {
     if (!game) return [];
@@ -277,6 +388,93 @@ export default function GameAnalysisPage() {
     return pairs;
   }, [game, analysis]);
 
+  // Critical moments (found here for analyses saved before they were
+  // part of the analysis)
+  const criticalMoments = useMemo(() => {
+    if (!game || !analysis) return [];
+    return analysis.criticalMoments ?? findCriticalMoments(game.moves, analysis.evaluations);
+  }, [game, analysis]);
+
+  const showMoment = useCallback(
+    (index: number) => {
+      setMomentIndex(index);
+      goToMove(criticalMoments[index].index);
+    },
+    [criticalMoments, goToMove]
+  );
+
+  const retryPositions = useMemo(
+    () => (game && analysis ? getRetryPositions({ ...game, analysis }) : []),
+    [game, analysis]
+  );
+
+  // Set up the position before a mistake for the user to try again
+  const showRetry = useCallback(
+    (queue: number[], current: number, solved: number) => {
+      if (!game) return;
+      const move = game.moves[queue[current]];
+      const previous = game.moves[queue[current] - 1];
+      chess.load(move.fenBefore);
+      setPosition(move.fenBefore);
+      setLastMove(previous ? { from: previous.from, to: previous.to } : null);
+      setMomentIndex(null);
+      setRetry({ queue, current, status: "trying", attempts: 0, solved });
+    },
+    [game, chess]
+  );
+
+  const exitRetry = useCallback(() => goToMove(viewingIndex), [goToMove, viewingIndex]);
+
+  // Judge a try: the engine's own candidates are scored already, anything
+  // else is evaluated
+  const handleRetryMove = useCallback(
+    async (move: Move) => {
+      if (!game || !analysis || retry?.status !== "trying") return;
+      const index = retry.queue[retry.current];
+      const evaluation = analysis.evaluations[index];
+      const { fenBefore, color } = game.moves[index];
+      if (!evaluation) return;
+
+      const after = new Chess(fenBefore);
+      const played = after.move({ from: move.from, to: move.to, promotion: "q" });
+      setPosition(after.fen());
+      setLastMove({ from: played.from, to: played.to });
+
+      let centipawns = evaluation.candidates?.find((c) => c.move === played.san)?.centipawns;
+      if (played.san !== evaluation.bestMove && centipawns === undefined) {
+        setRetry({ ...retry, status: "checking", played: played.san });
+        try {
+          centipawns = await engine.evaluate(after.fen());
+        } catch (err) {
+          if (err instanceof EngineStoppedError) return;
+          console.error("[retry] Failed to evaluate:", err);
+          setPosition(fenBefore);
+          setRetry({ ...retry, status: "trying" });
+          return;
+        }
+      }
+
+      if (played.san === evaluation.bestMove || isGoodRetry(evaluation, color, centipawns!)) {
+        recordSolvedMistake(game.id, index);
+        setGame({ ...game, solvedMistakes: [...(game.solvedMistakes ?? []), index] });
+        setRetry({ ...retry, status: "solved", solved: retry.solved + 1, played: played.san });
+        return;
+      }
+
+      const attempts = retry.attempts + 1;
+      setRetry({ ...retry, status: "wrong", attempts, played: played.san });
+      setTimeout(() => {
+        setPosition(fenBefore);
+        setRetry((current) =>
+          current?.status === "wrong"
+            ? { ...current, status: attempts >= MAX_RETRY_ATTEMPTS ? "revealed" : "trying" }
+            : current
+        );
+      }, RETRY_TAKEBACK_DELAY);
+    },
+    [game, analysis, retry, engine]
+  );
+
   // Current move evaluation
   const currentEval = useMemo(() => {
     if (!analysis || viewingIndex < 0) return null;
@@ -345,7 +543,7 @@ export default function GameAnalysisPage() {
           </div>
           <p className="mt-1 text-sm text-muted-foreground">
             {game.metadata.opponentType === "ai"
-              ? `vs AI (${game.metadata.aiDifficulty})`
+              ? `vs ${describeOpponent(game.metadata)}`
               : "vs Human"}{" "}
             &middot; {game.metadata.totalMoves} moves &middot;{" "}
             {new Date(game.metadata.date).toLocaleDateString()}
@@ -371,11 +569,7 @@ export default function GameAnalysisPage() {
                 />
               </div>
               <span className="min-w-[48px] text-right font-mono text-xs text-muted-foreground">
-                {currentEval
-                  ? `${currentEval.centipawns >= 0 ? "+" : ""}${(
-                      currentEval.centipawns / 100
-                    ).toFixed(1)}`
-                  : "0.0"}
+                {currentEval ? formatEvaluation(currentEval) : "0.0"}
               </span>
             </div>
           )}
@@ -385,8 +579,8 @@ export default function GameAnalysisPage() {
             position={position}
             boardOrientation={game.metadata.playerColor}
             boardWidth={480}
-            arePiecesDraggable={false}
-            onMove={() => {}}
+            arePiecesDraggable={retry?.status === "trying"}
+            onMove={handleRetryMove}
             lastMove={lastMove}
             isCheck={false}
             promotionSquare={null}
@@ -396,26 +590,117 @@ export default function GameAnalysisPage() {
           />
 
           {/* Navigation */}
-          <div className="mt-3 flex items-center justify-center gap-1">
-            <Button variant="ghost" size="icon" onClick={goToStart} className="h-9 w-9">
-              <SkipBack className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" onClick={goBack} className="h-9 w-9">
-              <ChevronLeft className="h-4 w-4" />
-            </Button>
-            <span className="mx-2 min-w-[60px] text-center text-xs text-muted-foreground">
-              {viewingIndex < 0 ? "Start" : `${viewingIndex + 1} / ${game.moves.length}`}
-            </span>
-            <Button variant="ghost" size="icon" onClick={goForward} className="h-9 w-9">
-              <ChevronRight className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" onClick={goToEnd} className="h-9 w-9">
-              <SkipForward className="h-4 w-4" />
-            </Button>
-          </div>
+          {!retry && (
+            <div className="mt-3 flex items-center justify-center gap-1">
+              <Button variant="ghost" size="icon" onClick={goToStart} className="h-9 w-9">
+                <SkipBack className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={goBack} className="h-9 w-9">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="mx-2 min-w-[60px] text-center text-xs text-muted-foreground">
+                {viewingIndex < 0 ? "Start" : `${viewingIndex + 1} / ${game.moves.length}`}
+              </span>
+              <Button variant="ghost" size="icon" onClick={goForward} className="h-9 w-9">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={goToEnd} className="h-9 w-9">
+                <SkipForward className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          {/* Retry */}
+          {retry && (() => {
+            const index = retry.queue[retry.current];
+            const evaluation = analysis?.evaluations[index];
+            const last = retry.current === retry.queue.length - 1;
+            return (
+              <Card className="mt-3 border-border/50 bg-card/50">
+                <CardContent className="p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      <GraduationCap className="h-4 w-4 text-primary" />
+                      Mistake {retry.current + 1} of {retry.queue.length}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      Solved {retry.solved}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    You played <span className="font-mono">{game.moves[index].san}</span> here
+                    {evaluation && ` (${evaluation.classification})`}. Find a better move.
+                  </p>
+                  <p className="mt-2 text-sm">
+                    {retry.status === "trying" &&
+                      (retry.attempts > 0
+                        ? `Not quite. Try again (${MAX_RETRY_ATTEMPTS - retry.attempts} left).`
+                        : `${game.moves[index].color === "w" ? "White" : "Black"} to move.`)}
+                    {retry.status === "checking" && (
+                      <span className="flex items-center gap-2">
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        Checking {retry.played}...
+                      </span>
+                    )}
+                    {retry.status === "wrong" && (
+                      <span className="text-orange-400">{retry.played} doesn&apos;t fix it.</span>
+                    )}
+                    {retry.status === "solved" && (
+                      <span className="text-emerald-400">
+                        {retry.played} works
+                        {evaluation && retry.played !== evaluation.bestMove
+                          ? ` (the engine's choice was ${evaluation.bestMove}).`
+                          : "!"}
+                      </span>
+                    )}
+                    {retry.status === "revealed" && evaluation && (
+                      <span>
+                        The best move was <span className="font-mono">{evaluation.bestMove}</span>
+                        {evaluation.bestLine && (
+                          <>
+                            {": "}
+                            <span className="font-mono text-muted-foreground">{evaluation.bestLine}</span>
+                          </>
+                        )}
+                      </span>
+                    )}
+                  </p>
+                  <div className="mt-3 flex items-center justify-between">
+                    <Button size="sm" variant="ghost" onClick={exitRetry} className="h-7 text-xs">
+                      Exit
+                    </Button>
+                    <div className="flex gap-2">
+                      {retry.status === "trying" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setRetry({ ...retry, status: "revealed" })}
+                          className="h-7 text-xs"
+                        >
+                          Show answer
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() =>
+                          last ? exitRetry() : showRetry(retry.queue, retry.current + 1, retry.solved)
+                        }
+                        disabled={retry.status === "checking" || retry.status === "wrong"}
+                        className="h-7 gap-1 text-xs"
+                      >
+                        {last ? "Finish" : retry.status === "trying" ? "Skip" : "Next"}
+                        {!last && <ChevronRight className="h-3 w-3" />}
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })()}
 
           {/* Current move info */}
-          {currentEval && viewingIndex >= 0 && (
+          {!retry && currentEval && viewingIndex >= 0 && (
             <Card className="mt-3 border-border/50 bg-card/50">
               <CardContent className="p-3">
                 <div className="flex items-center justify-between">
@@ -438,17 +723,53 @@ export default function GameAnalysisPage() {
                       );
                     })()}
                   </div>
-                  {currentEval.cpLoss > 0 && (
+                  {(currentEval.cpLoss > 0 || currentEval.accuracy != null) && (
                     <span className="text-xs text-muted-foreground">
-                      -{currentEval.cpLoss}cp
+                      {currentEval.cpLoss > 0 && `-${currentEval.cpLoss}cp`}
+                      {currentEval.cpLoss > 0 && currentEval.accuracy != null && " · "}
+                      {currentEval.accuracy != null && `${currentEval.accuracy.toFixed(0)}%`}
                     </span>
                   )}
                 </div>
-                {currentEval.bestMove && currentEval.classification !== "good" && currentEval.classification !== "great" && currentEval.classification !== "brilliant" && (
+                {currentEval.bestMove && currentEval.classification !== "good" && currentEval.classification !== "great" && currentEval.classification !== "brilliant" && currentEval.classification !== "book" && (
                   <p className="mt-1 text-xs text-muted-foreground">
                     Best was: <span className="font-mono">{currentEval.bestMove}</span>
                   </p>
                 )}
+                {currentEval.motifs && currentEval.motifs.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {currentEval.motifs.map((motif) => (
+                      <Badge key={motif} variant="secondary" className="text-[10px] capitalize">
+                        {motif.replace(/([A-Z])/g, " $1").trim()}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {currentEval.candidates && currentEval.candidates.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {currentEval.candidates[0].move === game.moves[viewingIndex]?.san
+                        ? "Other good moves here were:"
+                        : "Good moves here were:"}
+                    </p>
+                    {currentEval.candidates
+                      .filter((candidate) => candidate.move !== game.moves[viewingIndex]?.san)
+                      .map((candidate) => (
+                        <div
+                          key={candidate.move}
+                          className="flex items-baseline gap-2 font-mono text-xs"
+                        >
+                          <span className="min-w-[40px] text-muted-foreground">
+                            {formatEvaluation(candidate)}
+                          </span>
+                          <span className="font-medium">{candidate.move}</span>
+                          <span className="truncate text-muted-foreground/70">
+                            {candidate.line.split(" ").slice(1).join(" ")}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -489,6 +810,13 @@ export default function GameAnalysisPage() {
             </Card>
           )}
 
+          {analysis && !retry && retryPositions.length > 0 && (
+            <Button onClick={() => showRetry(retryPositions, 0, 0)} variant="secondary" className="w-full gap-2">
+              <GraduationCap className="h-4 w-4" />
+              Learn from your mistakes ({retryPositions.length})
+            </Button>
+          )}
+
           {/* Analysis Summary */}
           {analysis && (
             <Card className="border-border/50 bg-card/50">
@@ -498,12 +826,37 @@ export default function GameAnalysisPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="mb-3 text-center">
-                  <span className="text-3xl font-bold">
-                    {analysis.summary.accuracy.toFixed(1)}%
-                  </span>
-                  <p className="text-xs text-muted-foreground">Accuracy</p>
-                </div>
+                {opponentSummary ? (
+                  <div className="mb-3 grid grid-cols-2 gap-2 text-center">
+                    <div>
+                      <span className="text-3xl font-bold">
+                        {analysis.summary.accuracy.toFixed(1)}%
+                      </span>
+                      <p className="text-xs text-muted-foreground">Your accuracy</p>
+                    </div>
+                    <div>
+                      <span className="text-3xl font-bold text-muted-foreground">
+                        {opponentSummary.accuracy.toFixed(1)}%
+                      </span>
+                      <p className="text-xs text-muted-foreground">
+                        {game.metadata.opponentType === "ai"
+                          ? describeOpponent(game.metadata)
+                          : "Opponent"}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {opponentSummary.mistakes} mistakes &middot;{" "}
+                        {opponentSummary.blunders} blunders
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mb-3 text-center">
+                    <span className="text-3xl font-bold">
+                      {analysis.summary.accuracy.toFixed(1)}%
+                    </span>
+                    <p className="text-xs text-muted-foreground">Accuracy</p>
+                  </div>
+                )}
                 <Separator className="mb-3 bg-border/50" />
                 <div className="grid grid-cols-3 gap-2 text-center">
                   {analysis.summary.brilliant > 0 && (
@@ -545,6 +898,98 @@ export default function GameAnalysisPage() {
             </Card>
           )}
 
+          {/* Key Moments */}
+          {analysis && criticalMoments.length > 0 && (
+            <Card className="border-border/50 bg-card/50">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <Flag className="h-4 w-4" />
+                    Key Moments
+                  </CardTitle>
+                  {momentIndex === null ? (
+                    <Button size="sm" variant="secondary" onClick={() => showMoment(0)} className="h-7 text-xs">
+                      Walk through ({criticalMoments.length})
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => setMomentIndex(null)} className="h-7 text-xs">
+                      Done
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {momentIndex === null ? (
+                  <div className="space-y-1">
+                    {criticalMoments.map((moment, i) => (
+                      <button
+                        key={moment.index}
+                        onClick={() => showMoment(i)}
+                        className="flex w-full items-center gap-2 rounded px-2 py-1 text-left text-xs hover:bg-secondary/50 transition-colors"
+                      >
+                        <span className="w-10 font-mono text-muted-foreground">
+                          {Math.floor(moment.index / 2) + 1}
+                          {moment.index % 2 === 0 ? "." : "..."}
+                        </span>
+                        <span>{describeMoment(moment, game.moves)}</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div>
+                    <p className="text-xs text-muted-foreground">
+                      Moment {momentIndex + 1} of {criticalMoments.length} &middot; move{" "}
+                      {Math.floor(criticalMoments[momentIndex].index / 2) + 1}
+                    </p>
+                    <p className="mt-1 text-sm font-medium">
+                      {describeMoment(criticalMoments[momentIndex], game.moves)}
+                    </p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Best was{" "}
+                      <span className="font-mono">{criticalMoments[momentIndex].bestMove}</span>
+                      {criticalMoments[momentIndex].bestLine && (
+                        <>
+                          {": "}
+                          <span className="font-mono">{criticalMoments[momentIndex].bestLine}</span>
+                        </>
+                      )}
+                    </p>
+                    <div className="mt-3 flex items-center justify-between">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => showMoment(momentIndex - 1)}
+                        disabled={momentIndex === 0}
+                        className="h-7 gap-1 text-xs"
+                      >
+                        <ChevronLeft className="h-3 w-3" />
+                        Previous
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => goToMove(criticalMoments[momentIndex].index - 1)}
+                        className="h-7 text-xs"
+                      >
+                        Before the move
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => showMoment(momentIndex + 1)}
+                        disabled={momentIndex === criticalMoments.length - 1}
+                        className="h-7 gap-1 text-xs"
+                      >
+                        Next
+                        <ChevronRight className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Evaluation Graph */}
           {analysis && chartData.length > 0 && (
             <Card className="border-border/50 bg-card/50">
@@ -558,11 +1003,9 @@ export default function GameAnalysisPage() {
                   <AreaChart
                     data={chartData}
                     margin={{ top: 5, right: 5, left: -20, bottom: 5 }}
-                    onClick={(e: any) => {
-                      if (e?.activePayload?.[0]?.payload) {
-                        const moveIdx = e.activePayload[0].payload.move - 1;
-                        goToMove(moveIdx);
-                      }
+                    onClick={(state) => {
+                      const point = clickedPoint(chartData, state);
+                      if (point) goToMove(point.move - 1);
                     }}
                   >
                     <defs>
@@ -593,9 +1036,7 @@ export default function GameAnalysisPage() {
                           <div className="rounded-md border border-border bg-card px-2 py-1 text-xs shadow">
                             <span>Move {d.move}: </span>
                             <span className="font-mono">
-                              {d.eval !== null
-                                ? `${d.eval >= 0 ? "+" : ""}${d.eval.toFixed(1)}`
-                                : "—"}
+                              {d.label ?? "—"}
                             </span>
                             {d.classification && (
                               <span className="ml-1 capitalize text-muted-foreground">
@@ -629,6 +1070,95 @@ export default function GameAnalysisPage() {
             </Card>
           )}
 
+          {/* Time Usage */}
+          {timeUsage && (
+            <Card className="border-border/50 bg-card/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <Timer className="h-4 w-4" />
+                  Time Usage
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={120}>
+                  <BarChart
+                    data={timeChartData}
+                    margin={{ top: 5, right: 5, left: -20, bottom: 5 }}
+                    onClick={(state) => {
+                      const point = clickedPoint(timeChartData, state);
+                      if (point) goToMove(point.move - 1);
+                    }}
+                  >
+                    <XAxis
+                      dataKey="move"
+                      tick={{ fontSize: 10 }}
+                      stroke="hsl(var(--muted-foreground))"
+                      tickLine={false}
+                    />
+                    <YAxis
+                      tick={{ fontSize: 10 }}
+                      stroke="hsl(var(--muted-foreground))"
+                      tickLine={false}
+                    />
+                    <Tooltip
+                      content={({ active, payload }) => {
+                        if (!active || !payload?.[0]) return null;
+                        const d = payload[0].payload;
+                        return (
+                          <div className="rounded-md border border-border bg-card px-2 py-1 text-xs shadow">
+                            <span>Move {d.move}: {d.seconds}s</span>
+                            {d.classification && (
+                              <span className="ml-1 capitalize text-muted-foreground">
+                                ({d.classification})
+                              </span>
+                            )}
+                            <span className="ml-1 text-muted-foreground">
+                              &middot; {formatClock(d.clock)} left
+                            </span>
+                          </div>
+                        );
+                      }}
+                    />
+                    <Bar dataKey="seconds" radius={[2, 2, 0, 0]}>
+                      {timeChartData.map((d) => (
+                        <Cell
+                          key={d.move}
+                          fill={
+                            d.classification === "blunder"
+                              ? "hsl(0, 80%, 55%)"
+                              : d.classification === "mistake"
+                                ? "hsl(35, 90%, 50%)"
+                                : d.timeTrouble
+                                  ? "hsl(45, 90%, 55%)"
+                                  : "hsl(var(--primary))"
+                          }
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+                <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                  <p>
+                    {timeUsage.averageTime.toFixed(1)}s per move on average
+                    {timeUsage.timeTroubleMoves > 0 &&
+                      ` · ${timeUsage.timeTroubleMoves} moves in time trouble`}
+                    {timeUsage.timeTroubleErrors > 0 &&
+                      ` (${timeUsage.timeTroubleErrors} mistakes or blunders)`}
+                  </p>
+                  {timeUsage.hastyCritical > 0 && (
+                    <p className="text-orange-400">
+                      {timeUsage.hastyCritical} critical{" "}
+                      {timeUsage.hastyCritical === 1 ? "moment" : "moments"} played in a hurry
+                    </p>
+                  )}
+                  {timeUsage.correlation !== null && (
+                    <p>{describeTimeCorrelation(timeUsage.correlation)}</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Move List */}
           <Card className="border-border/50 bg-card/50">
             <CardHeader className="pb-2">
@@ -18,6 +18,7 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
 import { getGameHistory, type SavedGame } from "@/lib/game-storage";
+import { describeOpponent } from "@/lib/personalities";
 
 const fadeUp = {
   hidden: { opacity: 0, y: 10 },
@@ -81,10 +82,7 @@ function getResultBadge(
 
 function getOpponentLabel(game: SavedGame): string {
   if (game.metadata.opponentType === "ai") {
-    const difficulty = game.metadata.aiDifficulty
-      ? ` (${game.metadata.aiDifficulty})`
-      : "";
-    return `AI${difficulty}`;
+    return describeOpponent(game.metadata);
   }
   return "Human";
 }
@@ -29,6 +29,7 @@ import {
   generateGameId,
   type SavedMove,
 } from "@/lib/game-storage";
+import { parseClockTimes } from "@/lib/time-management";
 import { Chess } from "chess.js";
 
 interface LichessUser {
@@ -126,7 +127,7 @@ export default function ImportPage() {
       const res = await fetch(
         `https://lichess.org/api/games/user/${encodeURIComponent(
           lichessUser.username
-        )}?max=20&pgnInJson=true&opening=true`,
+        )}?max=20&pgnInJson=true&opening=true&clocks=true`,
         { headers: { Accept: "application/x-ndjson" } }
       );
 
@@ -216,9 +217,11 @@ export default function ImportPage() {
         if (pgn) {
           tempChess.loadPgn(pgn);
           const history = tempChess.history({ verbose: true });
+          // Clock times are only usable if every move has one
+          const clocks = parseClockTimes(pgn);
 
           const replayChess = new Chess();
-          for (const move of history) {
+          history.forEach((move, i) => {
             const fenBefore = replayChess.fen();
             replayChess.move(move.san);
             savedMoves.push({
@@ -231,8 +234,9 @@ export default function ImportPage() {
               color: move.color,
               flags: move.flags,
               captured: move.captured,
+              clock: clocks.length === history.length ? clocks[i] : undefined,
             });
-          }
+          });
         }
       } catch {
         // Skip games with unparseable PGN
@@ -257,6 +261,10 @@ export default function ImportPage() {
           source: "lichess",
           lichessId: game.id,
           opening: game.opening?.name,
+          timeControl: game.clock && {
+            initial: game.clock.initial,
+            increment: game.clock.increment,
+          },
         },
       });
 
@@ -37,10 +37,12 @@ import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
 import {
   getGameHistory,
+  getPlayerEvaluations,
   getPuzzleStats,
   getUserProfile,
   type SavedGame,
 } from "@/lib/game-storage";
+import { classifyPhase, formatPhase } from "@/lib/game-phase";
 import {
   checkAchievements,
   getCurrentStreak,
@@ -101,22 +103,15 @@ export default function DashboardPage() {
     const themes: Record<string, number> = {};
     for (const game of games) {
       if (!game.analysis) continue;
-      game.analysis.evaluations.forEach((ev, i) => {
-        if (!ev) return;
+      getPlayerEvaluations(game).forEach(({ index: i, evaluation: ev }) => {
         if (
           ev.classification === "mistake" ||
           ev.classification === "blunder" ||
           ev.classification === "inaccuracy"
         ) {
           // Classify by game phase
-          const moveNum = i;
-          if (moveNum < 20) {
-            themes["Opening"] = (themes["Opening"] || 0) + 1;
-          } else if (moveNum < 60) {
-            themes["Middlegame"] = (themes["Middlegame"] || 0) + 1;
-          } else {
-            themes["Endgame"] = (themes["Endgame"] || 0) + 1;
-          }
+          const phase = formatPhase(ev.phase ?? classifyPhase(game.moves[i].fenBefore));
+          themes[phase] = (themes[phase] || 0) + 1;
         }
       });
     }
@@ -27,17 +27,28 @@ import { cn } from "@/lib/utils";
 import CapturedPieces from "@/components/CapturedPieces";
 import GameOverModal from "@/components/GameOverModal";
 import {
-  getAIMove,
+  clampRating,
   getCapturedPieces,
   getMaterialCount,
-  type Difficulty,
+  DEFAULT_RATING,
+  DIFFICULTY_RATINGS,
+  MAX_RATING,
+  MIN_RATING,
 } from "@/lib/chess-engine";
+import { createEngineService, EngineStoppedError } from "@/lib/engine-service";
+import {
+  DEFAULT_PERSONALITY,
+  getPersonality,
+  PERSONALITIES,
+  type PersonalityId,
+} from "@/lib/personalities";
 import {
   saveCurrentGame,
   loadCurrentGame,
   clearCurrentGame,
   saveCompletedGame,
   generateGameId,
+  getUserProfile,
   type SavedMove,
 } from "@/lib/game-storage";
 
@@ -56,11 +67,7 @@ type GameResult =
   | "resigned"
   | null;
 
-const DIFFICULTY_LABELS: Record<Difficulty, { label: string; desc: string }> = {
-  beginner: { label: "Beginner", desc: "Depth 1-2" },
-  intermediate: { label: "Intermediate", desc: "Depth 5-8" },
-  advanced: { label: "Advanced", desc: "Depth 12-15" },
-};
+const RATING_STEP = 100;
 
 export default function PlayPage() {
   // Game state
@@ -74,7 +81,10 @@ export default function PlayPage() {
 
   // Mode settings
   const [gameMode, setGameMode] = useState<GameMode>("ai");
-  const [difficulty, setDifficulty] = useState<Difficulty>("beginner");
+  const [rating, setRating] = useState(DEFAULT_RATING);
+  const [personality, setPersonality] = useState<PersonalityId>(DEFAULT_PERSONALITY);
+  // The player's Lichess rating, when known, to match the AI to
+  const [playerRating, setPlayerRating] = useState<number | null>(null);
   const [playerColor, setPlayerColor] = useState<"white" | "black">("white");
 
   // Move tracking
@@ -88,6 +98,7 @@ export default function PlayPage() {
 
   // AI state
   const [aiThinking, setAiThinking] = useState(false);
+  const [engine] = useState(() => createEngineService());
 
   // Promotion
   const [pendingPromotion, setPendingPromotion] = useState<{
@@ -135,7 +146,8 @@ export default function PlayPage() {
           date: new Date().toISOString(),
           playerColor,
           opponentType: gameMode === "ai" ? "ai" : "human",
-          aiDifficulty: gameMode === "ai" ? difficulty : undefined,
+          aiRating: gameMode === "ai" ? rating : undefined,
+          aiPersonality: gameMode === "ai" ? personality : undefined,
           result: winnerColor || "draw",
           resultReason: result,
           totalMoves: Math.ceil(verboseHistory.length / 2),
@@ -143,7 +155,7 @@ export default function PlayPage() {
         },
       });
     },
-    [chess, playerColor, gameMode, difficulty]
+    [chess, playerColor, gameMode, rating, personality]
   );
 
   // Check game state after every move
@@ -198,9 +210,9 @@ export default function PlayPage() {
 
     setAiThinking(true);
     try {
-      const move = await getAIMove(chess.fen(), difficulty);
-      if (move) {
-        chess.move(move.san);
+      const san = await engine.getMove(chess.fen(), rating, undefined, personality);
+      if (san) {
+        const move = chess.move(san);
         setPosition(chess.fen());
         setMoveHistory([...chess.history({ verbose: true })]);
         setLastMove({ from: move.from, to: move.to });
@@ -208,11 +220,13 @@ export default function PlayPage() {
         checkGameState();
       }
     } catch (err) {
+      // A stopped search belongs to a game that has since been reset
+      if (err instanceof EngineStoppedError) return;
       console.error("[play] AI move error:", err);
     } finally {
       setAiThinking(false);
     }
-  }, [chess, difficulty, gameOver, aiThinking, checkGameState]);
+  }, [chess, engine, rating, personality, gameOver, aiThinking, checkGameState]);
 
   // Handle player move
   const handleMove = useCallback(
@@ -308,7 +322,9 @@ export default function PlayPage() {
 
   // New game
   const startNewGame = useCallback(() => {
+    engine.stop();
     chess.reset();
+    engine.reset();
     setPosition("start");
     setMoveHistory([]);
     setLastMove(null);
@@ -327,7 +343,7 @@ export default function PlayPage() {
     if (gameMode === "ai" && playerColor === "black") {
       setTimeout(() => makeAIMove(), 300);
     }
-  }, [chess, gameMode, playerColor, makeAIMove]);
+  }, [chess, engine, gameMode, playerColor, makeAIMove]);
 
   const handleNewGameClick = () => {
     if (gameStarted && !gameOver) {
@@ -346,10 +362,14 @@ export default function PlayPage() {
     }
     try {
       chess.loadPgn(saved.pgn);
+      engine.reset();
       setPosition(chess.fen());
       setMoveHistory([...chess.history({ verbose: true })]);
       setGameMode(saved.gameMode as "pvp" | "ai");
-      setDifficulty(saved.difficulty as Difficulty);
+      setRating(
+        saved.rating ?? DIFFICULTY_RATINGS[saved.difficulty ?? ""] ?? DEFAULT_RATING
+      );
+      setPersonality(getPersonality(saved.personality).id);
       setPlayerColor(saved.playerColor as "white" | "black");
       setBoardOrientation(saved.playerColor as "white" | "black");
       setGameStarted(true);
@@ -362,7 +382,7 @@ export default function PlayPage() {
       console.error("[play] Failed to restore game:", err);
     }
     setShowResumePrompt(false);
-  }, [chess]);
+  }, [chess, engine]);
 
   const handleDeclineResume = useCallback(() => {
     clearCurrentGame();
@@ -466,12 +486,18 @@ export default function PlayPage() {
     saveCurrentGame({
       pgn: chess.pgn(),
       gameMode,
-      difficulty,
+      rating,
+      personality,
       playerColor,
       gameStarted,
       timestamp: Date.now(),
     });
-  }, [moveHistory, gameStarted, gameOver, chess, gameMode, difficulty, playerColor]);
+  }, [moveHistory, gameStarted, gameOver, chess, gameMode, rating, personality, playerColor]);
+
+  // Stop the engine worker when leaving the page
+  useEffect(() => {
+    return () => engine.terminate();
+  }, [engine]);
 
   // Clear saved game when game ends
   useEffect(() => {
@@ -480,6 +506,15 @@ export default function PlayPage() {
     }
   }, [gameOver]);
 
+  // Match the AI to the player's rating when we know it
+  useEffect(() => {
+    const { lichessRating } = getUserProfile();
+    if (lichessRating) {
+      setPlayerRating(lichessRating);
+      setRating(clampRating(lichessRating));
+    }
+  }, []);
+
   // Load saved game on mount
   useEffect(() => {
     const saved = loadCurrentGame();
@@ -555,7 +590,7 @@ export default function PlayPage() {
           </div>
           <p className="mt-1 text-sm text-muted-foreground">
             {gameMode === "ai"
-              ? `Playing vs AI (${DIFFICULTY_LABELS[difficulty].label}) as ${playerColor}`
+              ? `Playing vs ${getPersonality(personality).name} (${rating}) as ${playerColor}`
               : "Local 2-player game"}
           </p>
         </div>
@@ -591,26 +626,58 @@ export default function PlayPage() {
           </button>
         </div>
 
-        {/* AI Difficulty */}
+        {/* AI personality */}
         {gameMode === "ai" && (
           <div className="flex gap-1 rounded-lg border border-border/50 bg-secondary/30 p-1">
-            {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map((d) => (
+            {PERSONALITIES.map((p) => (
               <button
-                key={d}
-                onClick={() => setDifficulty(d)}
+                key={p.id}
+                title={`${p.style}: ${p.description}`}
+                onClick={() => {
+                  setPersonality(p.id);
+                  setRating(p.rating);
+                }}
                 className={cn(
                   "rounded-md px-3 py-1.5 text-xs font-medium transition-colors",
-                  difficulty === d
+                  personality === p.id
                     ? "bg-primary text-primary-foreground"
                     : "text-muted-foreground hover:text-foreground"
                 )}
               >
-                {DIFFICULTY_LABELS[d].label}
+                {p.name}
               </button>
             ))}
           </div>
         )}
 
+        {/* AI strength */}
+        {gameMode === "ai" && (
+          <div className="flex items-center gap-3 rounded-lg border border-border/50 bg-secondary/30 px-3 py-1.5">
+            <label htmlFor="ai-rating" className="text-xs text-muted-foreground">
+              AI rating
+            </label>
+            <input
+              id="ai-rating"
+              type="range"
+              min={MIN_RATING}
+              max={MAX_RATING}
+              step={RATING_STEP}
+              value={rating}
+              onChange={(e) => setRating(Number(e.target.value))}
+              className="w-32 accent-primary"
+            />
+            <span className="min-w-[36px] font-mono text-xs font-medium">{rating}</span>
+            {playerRating && rating !== clampRating(playerRating) && (
+              <button
+                onClick={() => setRating(clampRating(playerRating))}
+                className="text-xs font-medium text-primary hover:underline"
+              >
+                Match my rating ({playerRating})
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Color selection */}
         {gameMode === "ai" && (
           <div className="flex gap-1 rounded-lg border border-border/50 bg-secondary/30 p-1">
@@ -640,6 +707,16 @@ export default function PlayPage() {
         )}
       </div>
 
+      {gameMode === "ai" && (
+        <p className="-mt-3 mb-6 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">
+            {getPersonality(personality).name}
+          </span>{" "}
+          &middot; {getPersonality(personality).style} &mdash;{" "}
+          {getPersonality(personality).description}
+        </p>
+      )}
+
       {/* Board + Sidebar */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-[auto_1fr]">
         {/* Board column */}
@@ -32,15 +32,20 @@ import {
   Swords,
   Crown,
   Medal,
+  Layers,
+  Timer,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import {
   getGameHistory,
+  getPlayerEvaluations,
   getPuzzleStats,
   type SavedGame,
 } from "@/lib/game-storage";
+import { classifyPhase, formatPhase, GAME_PHASES } from "@/lib/game-phase";
+import { summarizeTimeManagement } from "@/lib/time-management";
 import {
   getAllAchievements,
   getCurrentStreak,
@@ -96,17 +101,17 @@ export default function ProgressPage() {
       .reverse() // chronological order
       .map((g, i) => {
         const moveCount = g.moves.length;
-        // Classify by game phase accuracy (simplified)
-        const evals = g.analysis!.evaluations;
-        const openingErrors = evals
-          .slice(0, 20)
-          .filter((e) => e && (e.classification === "mistake" || e.classification === "blunder")).length;
-        const middleErrors = evals
-          .slice(20, 60)
-          .filter((e) => e && (e.classification === "mistake" || e.classification === "blunder")).length;
-        const endErrors = evals
-          .slice(60)
-          .filter((e) => e && (e.classification === "mistake" || e.classification === "blunder")).length;
+        // Mistakes and blunders by the phase they were made in (analyses
+        // from before moves were tagged are classified here)
+        const errorPhases = getPlayerEvaluations(g)
+          .filter(
+            ({ evaluation: e }) => e.classification === "mistake" || e.classification === "blunder"
+          )
+          .map(({ index, evaluation }) => evaluation.phase ?? classifyPhase(g.moves[index].fenBefore));
+        const openingErrors = errorPhases.filter((phase) => phase === "opening").length;
+        const middleErrors = errorPhases.filter((phase) => phase === "middlegame").length;
+        const endErrors = errorPhases.filter((phase) => phase === "endgame").length;
+        const phaseAccuracy = g.analysis!.summary.phaseAccuracy ?? {};
 
         return {
           game: i + 1,
@@ -114,6 +119,9 @@ export default function ProgressPage() {
           openingErrors,
           middleErrors,
           endErrors,
+          openingAccuracy: phaseAccuracy.opening ?? null,
+          middlegameAccuracy: phaseAccuracy.middlegame ?? null,
+          endgameAccuracy: phaseAccuracy.endgame ?? null,
           date: new Date(g.metadata.date).toLocaleDateString("en-US", {
             month: "short",
             day: "numeric",
@@ -122,6 +130,34 @@ export default function ProgressPage() {
       });
   }, [games]);
 
+  // Average accuracy and errors per game in each phase
+  const phaseStats = useMemo(() => {
+    return GAME_PHASES.map((phase) => {
+      const accuracies = accuracyTrend
+        .map((d) => d[`${phase}Accuracy`])
+        .filter((accuracy): accuracy is number => accuracy !== null);
+      const errors = accuracyTrend.reduce(
+        (sum, d) =>
+          sum +
+          (phase === "opening"
+            ? d.openingErrors
+            : phase === "middlegame"
+              ? d.middleErrors
+              : d.endErrors),
+        0
+      );
+      return {
+        phase: formatPhase(phase),
+        accuracy:
+          accuracies.length > 0
+            ? Math.round(accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length)
+            : null,
+        errorsPerGame:
+          accuracyTrend.length > 0 ? Math.round((errors / accuracyTrend.length) * 10) / 10 : 0,
+      };
+    });
+  }, [accuracyTrend]);
+
   // Blunders per game trend
   const blunderTrend = useMemo(() => {
     return games
@@ -150,6 +186,9 @@ export default function ProgressPage() {
       .sort((a, b) => b.total - a.total);
   }, [puzzleStats]);
 
+  // Clock use in games imported with clock times
+  const timeStats = useMemo(() => summarizeTimeManagement(games), [games]);
+
   // Puzzle rating history
   const ratingHistory = useMemo(() => {
     return puzzleStats.ratingHistory.map((entry, i) => ({
@@ -297,6 +336,46 @@ export default function ProgressPage() {
           </Card>
         </motion.div>
 
+        {/* Phase Breakdown */}
+        <motion.div variants={fadeUp}>
+          <Card className="border-border/50 bg-card/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <Layers className="h-4 w-4" />
+                Accuracy By Phase
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {phaseStats.some((d) => d.accuracy !== null) ? (
+                <ResponsiveContainer width="100%" height={200}>
+                  <BarChart data={phaseStats} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+                    <XAxis dataKey="phase" tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" tickLine={false} />
+                    <YAxis domain={[0, 100]} tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" tickLine={false} />
+                    <Tooltip
+                      content={({ active, payload }) => {
+                        if (!active || !payload?.[0]) return null;
+                        const d = payload[0].payload;
+                        return (
+                          <div className="rounded-md border border-border bg-card px-2 py-1 text-xs shadow">
+                            {d.phase}: {d.accuracy !== null ? `${d.accuracy}%` : "—"} accuracy,{" "}
+                            {d.errorsPerGame} mistakes per game
+                          </div>
+                        );
+                      }}
+                    />
+                    <Bar dataKey="accuracy" fill="hsl(var(--primary))" radius={[2, 2, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                  <Layers className="h-8 w-8 mb-2 opacity-50" />
+                  <p className="text-sm">Analyze games to compare opening, middlegame and endgame</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+
         {/* Theme Mastery */}
         <motion.div variants={fadeUp}>
           <Card className="border-border/50 bg-card/50">
@@ -381,6 +460,69 @@ export default function ProgressPage() {
             </CardContent>
           </Card>
         </motion.div>
+
+        {/* Time Management */}
+        <motion.div variants={fadeUp}>
+          <Card className="border-border/50 bg-card/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <Timer className="h-4 w-4" />
+                Time Management
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {timeStats ? (
+                <div className="grid grid-cols-2 gap-3">
+                  {[
+                    {
+                      label: "Avg Time Per Move",
+                      value: `${timeStats.averageTime.toFixed(1)}s`,
+                    },
+                    {
+                      label: "Games In Time Trouble",
+                      value: `${timeStats.timeTroubleGames}/${timeStats.games}`,
+                    },
+                    {
+                      label: "Mistakes In Time Trouble",
+                      value:
+                        timeStats.timeTroubleErrorShare !== null
+                          ? `${Math.round(timeStats.timeTroubleErrorShare)}%`
+                          : "—",
+                    },
+                    {
+                      label: "Rushed Critical Moments",
+                      value: `${timeStats.hastyCriticalPerGame.toFixed(1)}/game`,
+                    },
+                    {
+                      label: "Accuracy, Quick Moves",
+                      value:
+                        timeStats.fastAccuracy !== null
+                          ? `${Math.round(timeStats.fastAccuracy)}%`
+                          : "—",
+                    },
+                    {
+                      label: "Accuracy, Long Thinks",
+                      value:
+                        timeStats.slowAccuracy !== null
+                          ? `${Math.round(timeStats.slowAccuracy)}%`
+                          : "—",
+                    },
+                  ].map(({ label, value }) => (
+                    <div key={label} className="rounded-md bg-secondary/30 p-2 text-center">
+                      <span className="text-lg font-bold">{value}</span>
+                      <p className="text-[10px] text-muted-foreground">{label}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                  <Timer className="h-8 w-8 mb-2 opacity-50" />
+                  <p className="text-sm">Import Lichess games with clock times to track your time use</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
       </div>
 
       {/* Achievements */}
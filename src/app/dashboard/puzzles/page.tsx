@@ -20,6 +20,7 @@ import {
   Zap,
   BarChart3,
   ArrowRight,
+  User,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -39,13 +40,14 @@ import {
   saveUserProfile,
   type PuzzleStats,
 } from "@/lib/game-storage";
+import { getPersonalPuzzles } from "@/lib/personal-puzzles";
 
 const PlayableChessBoard = dynamic(
   () => import("@/components/PlayableChessBoard"),
   { ssr: false }
 );
 
-type TrainingMode = "daily" | "endless" | "theme";
+type TrainingMode = "daily" | "endless" | "theme" | "mine";
 
 interface SessionResult {
   puzzleId: string;
@@ -82,6 +84,7 @@ export default function PuzzlesPage() {
 
   // Stats
   const [stats, setStats] = useState<PuzzleStats>(getPuzzleStats());
+  const [myPuzzleCount, setMyPuzzleCount] = useState(0);
 
   // Load a puzzle onto the board
   const loadPuzzle = useCallback(
@@ -190,8 +193,22 @@ export default function PuzzlesPage() {
     [loadPuzzle]
   );
 
+  // Start training on puzzles from the user's own games
+  const startMyPuzzles = useCallback(() => {
+    setMode("mine");
+    setSessionResults([]);
+    setSessionComplete(false);
+    const puzzles = getPersonalPuzzles()
+      .sort(() => Math.random() - 0.5)
+      .slice(0, 5);
+    setDailyQueue(puzzles);
+    setDailyIndex(0);
+    if (puzzles.length > 0) loadPuzzle(puzzles[0]);
+  }, [loadPuzzle]);
+
   // Initialize on mount
   useEffect(() => {
+    setMyPuzzleCount(getPersonalPuzzles().length);
     startDailyTraining();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -284,7 +301,7 @@ export default function PuzzlesPage() {
 
   // Next puzzle
   const nextPuzzle = useCallback(() => {
-    if (mode === "daily" || mode === "theme") {
+    if (mode === "daily" || mode === "theme" || mode === "mine") {
       const nextIdx = dailyIndex + 1;
       if (nextIdx >= dailyQueue.length) {
         setSessionComplete(true);
@@ -485,7 +502,9 @@ export default function PuzzlesPage() {
               ? `Daily training — Puzzle ${dailyIndex + 1} of ${dailyQueue.length}`
               : mode === "theme"
                 ? `${selectedTheme.replace(/([A-Z])/g, " $1").trim()} training — Puzzle ${dailyIndex + 1} of ${dailyQueue.length}`
-                : "Endless mode — Keep solving!"}
+                : mode === "mine"
+                  ? `From your games — Puzzle ${dailyIndex + 1} of ${dailyQueue.length}`
+                  : "Endless mode — Keep solving!"}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -526,6 +545,17 @@ export default function PuzzlesPage() {
           <Flame className="h-3 w-3" />
           Endless
         </Button>
+        <Button
+          variant={mode === "mine" ? "default" : "secondary"}
+          size="sm"
+          onClick={startMyPuzzles}
+          disabled={myPuzzleCount === 0}
+          title={myPuzzleCount === 0 ? "Analyse your games to turn your mistakes into puzzles" : undefined}
+          className="h-8 text-xs gap-1"
+        >
+          <User className="h-3 w-3" />
+          My Puzzles ({myPuzzleCount})
+        </Button>
         <div className="mx-1 h-8 w-px bg-border/50" />
         {themeOptions.map((t) => (
           <Button
@@ -704,7 +734,7 @@ export default function PuzzlesPage() {
           </div>
 
           {/* Session Progress (daily/theme mode) */}
-          {(mode === "daily" || mode === "theme") && (
+          {(mode === "daily" || mode === "theme" || mode === "mine") && (
             <Card className="border-border/50 bg-card/50">
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -12,6 +12,7 @@ import {
   Check,
   Loader2,
   ExternalLink,
+  Database,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,6 +20,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { getUserProfile, saveUserProfile, type UserProfile } from "@/lib/game-storage";
+import { createEngineService, EngineStoppedError } from "@/lib/engine-service";
+import type { CacheStats } from "@/lib/position-cache";
 
 const fadeUp = {
   hidden: { opacity: 0, y: 10 },
@@ -37,6 +40,9 @@ export default function SettingsPage() {
   const [experienceLevel, setExperienceLevel] = useState<"beginner" | "intermediate" | "advanced">("intermediate");
   const [saved, setSaved] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [clearingCache, setClearingCache] = useState(false);
+  const [engine] = useState(() => createEngineService());
 
   useEffect(() => {
     const p = getUserProfile();
@@ -45,6 +51,15 @@ export default function SettingsPage() {
     setExperienceLevel(p.experienceLevel || "intermediate");
   }, []);
 
+  // The engine worker owns the position cache, so ask it for the stats
+  useEffect(() => {
+    engine.cacheStats().then(setCacheStats, (err) => {
+      if (err instanceof EngineStoppedError) return;
+      console.error("[settings] Cache stats error:", err);
+    });
+    return () => engine.terminate();
+  }, [engine]);
+
   const handleSave = () => {
     if (!profile) return;
     setSaving(true);
@@ -65,14 +80,33 @@ export default function SettingsPage() {
     }, 300);
   };
 
-  const handleClearData = () => {
+  const handleClearCache = async () => {
+    setClearingCache(true);
+    try {
+      setCacheStats(await engine.clearCache());
+    } catch (err) {
+      console.error("[settings] Clear cache error:", err);
+    } finally {
+      setClearingCache(false);
+    }
+  };
+
+  const handleClearData = async () => {
     if (typeof window !== "undefined") {
       const confirmed = window.confirm(
         "This will clear all your game history, puzzle stats, and achievements. This cannot be undone. Continue?"
       );
       if (confirmed) {
         localStorage.clear();
-        window.location.reload();
+        try {
+          await engine.clearCache();
+        } catch (err) {
+          // IndexedDB can refuse (private mode, a blocked upgrade); the
+          // rest of the data is gone either way
+          console.error("[settings] Clear cache error:", err);
+        } finally {
+          window.location.reload();
+        }
       }
     }
   };
@@ -201,6 +235,50 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Analysis Cache */}
+        <Card className="border-border/50 bg-card/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Database className="h-4 w-4 text-primary" />
+              Analysis Cache
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              Positions the engine has already evaluated are kept on this device,
+              so re-analysing games and shared openings is faster
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <div className="grid grid-cols-2 gap-6 text-center">
+                <div>
+                  <span className="text-2xl font-bold">
+                    {cacheStats ? cacheStats.entries.toLocaleString() : "—"}
+                  </span>
+                  <p className="text-xs text-muted-foreground">Positions Stored</p>
+                </div>
+                <div>
+                  <span className="text-2xl font-bold">
+                    {cacheStats && cacheStats.hitRate !== null
+                      ? `${Math.round(cacheStats.hitRate)}%`
+                      : "—"}
+                  </span>
+                  <p className="text-xs text-muted-foreground">Hit Rate</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleClearCache}
+                disabled={clearingCache || !cacheStats}
+                className="gap-2"
+              >
+                {clearingCache && <Loader2 className="h-4 w-4 animate-spin" />}
+                Clear Cache
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Save Button */}
         <Button onClick={handleSave} disabled={saving} className="w-full gap-2">
           {saving ? (
@@ -224,7 +302,7 @@ export default function SettingsPage() {
           <CardContent>
             <p className="text-sm text-muted-foreground mb-3">
               Clear all local data including game history, puzzle stats,
-              achievements, and settings. This cannot be undone.
+              achievements, settings, and the analysis cache. This cannot be undone.
             </p>
             <Button
               variant="outline"
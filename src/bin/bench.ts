@@ -0,0 +1,83 @@
+/**
+ * Engine test and benchmark runner:
+ *
+ *   npm run bench -- perft [depth]          move generation against known counts
+ *   npm run bench -- search [depth]         nodes, NPS and time to each depth
+ *   npm run bench -- tactics [ms] [file]    best moves found in an EPD suite
+ *
+ * perft and tactics exit with status 1 when a count is wrong or a position
+ * fails to parse, so they can gate CI.
+ */
+
+import { readFileSync } from "node:fs";
+import { runPerft } from "../lib/perft";
+import {
+  getNps,
+  runBenchmark,
+  runTacticalSuite,
+  WAC_POSITIONS,
+} from "../lib/engine-bench";
+
+const [command = "search", arg, file] = process.argv.slice(2);
+
+function numberArg(fallback: number): number {
+  const value = Number(arg);
+  return arg && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+async function main(): Promise<number> {
+  switch (command) {
+    case "perft": {
+      const results = runPerft(numberArg(4), undefined, (result) =>
+        console.log(
+          `${result.passed ? "ok  " : "FAIL"} ${result.name.padEnd(16)} depth ${result.depth} ` +
+            `${result.nodes} nodes (expected ${result.expected}) in ${result.time}ms`
+        )
+      );
+      return results.every((result) => result.passed) ? 0 : 1;
+    }
+
+    case "search": {
+      const summary = await runBenchmark(numberArg(5), undefined, (result) => {
+        console.log(result.fen);
+        for (const { depth, nodes, time } of result.depths) {
+          console.log(`  depth ${depth}: ${nodes} nodes, ${time}ms`);
+        }
+        console.log(
+          `  best ${result.bestMove}, ${getNps(result.nodes, result.time)} nps, ` +
+            `evaluatePosition ${result.evalTime}ms`
+        );
+      });
+      console.log(
+        `Total: ${summary.nodes} nodes in ${summary.time}ms (${summary.nps} nps)`
+      );
+      return 0;
+    }
+
+    case "tactics": {
+      const epd = file
+        ? readFileSync(file, "utf8").split("\n").filter((line) => line.trim())
+        : WAC_POSITIONS;
+      const summary = await runTacticalSuite(numberArg(1000), epd, (result) =>
+        console.log(
+          `${result.solved ? "ok  " : "miss"} ${result.id}: played ${result.played}, ` +
+            `expected ${result.expected.join(" or ") || "anything else"}`
+        )
+      );
+      console.log(`Solved ${summary.solved}/${summary.total}`);
+      return 0;
+    }
+
+    default:
+      console.error(`Unknown command "${command}"; use perft, search or tactics`);
+      return 1;
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+);
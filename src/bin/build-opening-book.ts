@@ -0,0 +1,71 @@
+/**
+ * Builds public/book.bin, the opening book the AI opponent plays from,
+ * out of the main lines below. Each line's weight is how often it should be
+ * chosen; moves shared by several lines add their weights up.
+ *
+ *   npm run book
+ *
+ * Any Polyglot book can be used instead by replacing the file (or pointing
+ * NEXT_PUBLIC_OPENING_BOOK_URL at one).
+ */
+
+import { writeFileSync, mkdirSync } from "node:fs";
+import { Chess } from "chess.js";
+import {
+  encodeOpeningBook,
+  getPolyglotKey,
+  type BookEntry,
+} from "../lib/opening-book";
+
+const LINES: [weight: number, moves: string][] = [
+  // Open games
+  [30, "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O"],
+  [12, "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Nd6 Bxc6 dxc6 dxe5 Nf5"],
+  [15, "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d3 d6 O-O O-O"],
+  [8, "e4 e5 Nf3 Nc6 Bc4 Nf6 d3 Be7 O-O O-O Re1 d6"],
+  [8, "e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Nf6 Nxc6 bxc6 e5 Qe7"],
+  [6, "e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4 d4 d5 Bd3 Nc6"],
+  // Sicilian
+  [25, "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3 e5 Nb3 Be6"],
+  [12, "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5 Ndb5 d6"],
+  [10, "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3 Qc7 Be3 a6"],
+  [6, "e4 c5 c3 Nf6 e5 Nd5 d4 cxd4 Nf3 Nc6"],
+  // French, Caro-Kann, Scandinavian
+  [12, "e4 e6 d4 d5 Nc3 Nf6 Bg5 Be7 e5 Nfd7 Bxe7 Qxe7"],
+  [6, "e4 e6 d4 d5 e5 c5 c3 Nc6 Nf3 Qb6"],
+  [12, "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5 Ng3 Bg6 h4 h6"],
+  [6, "e4 c6 d4 d5 e5 Bf5 Nf3 e6 Be2 c5"],
+  [4, "e4 d5 exd5 Qxd5 Nc3 Qa5 d4 Nf6 Nf3 Bf5"],
+  // Queen's pawn
+  [20, "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6 Bh4 b6"],
+  [10, "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5 e3 e6"],
+  [8, "d4 d5 c4 dxc4 Nf3 Nf6 e3 e6 Bxc4 c5 O-O a6"],
+  [18, "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Bd3 d5 Nf3 c5"],
+  [15, "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6"],
+  [8, "d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3 Bg7"],
+  [8, "d4 Nf6 c4 e6 Nf3 b6 g3 Ba6 b3 Bb4 Bd2 Be7"],
+  [6, "d4 d5 Nf3 Nf6 Bf4 e6 e3 c5 c3 Nc6"],
+  // Flank openings
+  [10, "c4 e5 Nc3 Nf6 Nf3 Nc6 g3 d5 cxd5 Nxd5 Bg2 Nb6"],
+  [6, "c4 Nf6 Nc3 e6 e4 d5 e5 d4"],
+  [8, "Nf3 d5 g3 Nf6 Bg2 e6 O-O Be7 d3 O-O"],
+];
+
+const weights = new Map<string, BookEntry>();
+for (const [weight, line] of LINES) {
+  const chess = new Chess();
+  for (const san of line.split(" ")) {
+    const fen = chess.fen();
+    const move = chess.move(san);
+    const uci = move.from + move.to + (move.promotion ?? "");
+    const key = `${getPolyglotKey(fen)}|${uci}`; // transpositions share entries
+    const entry = weights.get(key) ?? { fen, uci, weight: 0 };
+    entry.weight += weight;
+    weights.set(key, entry);
+  }
+}
+
+const book = encodeOpeningBook(Array.from(weights.values()));
+mkdirSync("public", { recursive: true });
+writeFileSync("public/book.bin", Buffer.from(book));
+console.log(`Wrote ${weights.size} moves to public/book.bin`);
@@ -0,0 +1,10 @@
+/**
+ * Node entry point that speaks UCI on stdin/stdout, for tournament GUIs
+ * and match harnesses:
+ *
+ *   npm run uci
+ */
+
+import { runUci } from "../lib/uci";
+
+runUci(process.stdin, process.stdout).then(() => process.exit(0));
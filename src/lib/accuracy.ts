@@ -0,0 +1,72 @@
+/**
+ * Win-probability based accuracy, as used by modern game review tools.
+ *
+ * Centipawns are mapped to a win percentage with a logistic curve, so a
+ * pawn lost in a level position costs far more than a pawn lost when
+ * already a rook up or down. Each move's accuracy comes from how much win
+ * percentage it gave away, and a game's accuracy blends a volatility
+ * weighted mean (moves in sharp positions count more) with the harmonic
+ * mean (a blunder drags the score down without zeroing it).
+ */
+
+// Evaluations beyond this are all but decided; clamping keeps a forced
+// mate from looking infinitely better than a won ending
+const MAX_CENTIPAWNS = 1000;
+
+// Fitted to the results of rated games (the constant Lichess uses)
+const WIN_CURVE = 0.00368208;
+
+/**
+ * Chance of winning (0–100) for the side the score favours when positive,
+ * i.e. from white's perspective for white's-perspective centipawns.
+ */
+export function winPercent(centipawns: number): number {
+  const cp = Math.max(-MAX_CENTIPAWNS, Math.min(MAX_CENTIPAWNS, centipawns));
+  return 50 + 50 * (2 / (1 + Math.exp(-WIN_CURVE * cp)) - 1);
+}
+
+/**
+ * Accuracy (0–100) of a move that took the mover's win percentage from
+ * `before` to `after`. Gaining ground counts as perfect.
+ */
+export function moveAccuracy(before: number, after: number): number {
+  const drop = Math.max(0, before - after);
+  const accuracy = 103.1668 * Math.exp(-0.04354 * drop) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Aggregate accuracy for a game from its moves.
+ *
+ * @param winPercents - The mover's win percentage before each move
+ * @param accuracies  - Each move's accuracy, in the same order
+ */
+export function gameAccuracy(winPercents: number[], accuracies: number[]): number {
+  if (accuracies.length === 0) return 100;
+
+  // Weight each move by how much the evaluation swings around it
+  const windowSize = Math.max(2, Math.min(8, Math.floor(winPercents.length / 10)));
+  const weights = accuracies.map((_, index) => {
+    const start = Math.max(0, Math.min(index, winPercents.length - windowSize));
+    const window = winPercents.slice(start, start + windowSize);
+    return Math.max(0.5, Math.min(12, standardDeviation(window)));
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const weighted =
+    accuracies.reduce((sum, accuracy, index) => sum + accuracy * weights[index], 0) /
+    totalWeight;
+
+  // A move at 0% would make the harmonic mean 0, so floor it just above
+  const harmonic =
+    accuracies.length /
+    accuracies.reduce((sum, accuracy) => sum + 1 / Math.max(accuracy, 0.1), 0);
+
+  return (weighted + harmonic) / 2;
+}
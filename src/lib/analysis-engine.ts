@@ -1,13 +1,32 @@
 /**
  * Game Analysis Engine
  *
- * Evaluates each move in a completed chess game using a minimax search,
- * computes centipawn loss per move, classifies move quality, and produces
- * an overall accuracy summary.
+ * Evaluates every move in a completed chess game, by both players, with an
+ * engine provider (the built-in alpha-beta search unless another is
+ * given), measures how much winning chance each move gave away, classifies
+ * move quality, and produces an accuracy summary for each side. Moves from
+ * the opening book are marked "book" and left out of the accuracy.
  */
 
 import { Chess, Move } from "chess.js";
+import { createTranspositionTable } from "./transposition-table";
+import { searchPosition, type SearchLine, type SearchResult } from "./search";
+import type { PositionAnalysis, EngineProvider } from "./engine-provider";
+import { getOpeningBook } from "./opening-book";
+import { gameAccuracy, moveAccuracy, winPercent } from "./accuracy";
+import { classifyPhase, GAME_PHASES, type GamePhase } from "./game-phase";
+import { detectMotifs } from "./motifs";
+import { findCriticalMoments } from "./critical-moments";
+import { isSacrifice } from "./static-exchange";
+import { getPositionCache, withPositionCache, type PositionCache } from "./position-cache";
+import {
+  evaluateBoard,
+  getMateIn,
+  isMateScore,
+  PIECE_VALUES,
+} from "./evaluation";
 import type {
+  CandidateMove,
   MoveEvaluation,
   MoveClassification,
   GameAnalysis,
@@ -16,202 +35,52 @@ import type {
 } from "./game-storage";
 
 // ---------------------------------------------------------------------------
-// Piece values & positional tables (duplicated from chess-engine.ts so the
-// analysis module is self-contained and doesn't depend on runtime exports
-// that may change with difficulty settings).
+// Search
 // ---------------------------------------------------------------------------
 
-const PIECE_VALUES: Record<string, number> = {
-  p: 100,
-  n: 320,
-  b: 330,
-  r: 500,
-  q: 900,
-  k: 20000,
-};
-
-const PAWN_TABLE = [
-  0, 0, 0, 0, 0, 0, 0, 0,
-  50, 50, 50, 50, 50, 50, 50, 50,
-  10, 10, 20, 30, 30, 20, 10, 10,
-  5, 5, 10, 25, 25, 10, 5, 5,
-  0, 0, 0, 20, 20, 0, 0, 0,
-  5, -5, -10, 0, 0, -10, -5, 5,
-  5, 10, 10, -20, -20, 10, 10, 5,
-  0, 0, 0, 0, 0, 0, 0, 0,
-];
-
-const KNIGHT_TABLE = [
-  -50, -40, -30, -30, -30, -30, -40, -50,
-  -40, -20, 0, 0, 0, 0, -20, -40,
-  -30, 0, 10, 15, 15, 10, 0, -30,
-  -30, 5, 15, 20, 20, 15, 5, -30,
-  -30, 0, 15, 20, 20, 15, 0, -30,
-  -30, 5, 10, 15, 15, 10, 5, -30,
-  -40, -20, 0, 5, 5, 0, -20, -40,
-  -50, -40, -30, -30, -30, -30, -40, -50,
-];
-
-const BISHOP_TABLE = [
-  -20, -10, -10, -10, -10, -10, -10, -20,
-  -10, 0, 0, 0, 0, 0, 0, -10,
-  -10, 0, 5, 10, 10, 5, 0, -10,
-  -10, 5, 5, 10, 10, 5, 5, -10,
-  -10, 0, 10, 10, 10, 10, 0, -10,
-  -10, 10, 10, 10, 10, 10, 10, -10,
-  -10, 5, 0, 0, 0, 0, 5, -10,
-  -20, -10, -10, -10, -10, -10, -10, -20,
-];
-
-const ROOK_TABLE = [
-  0, 0, 0, 0, 0, 0, 0, 0,
-  5, 10, 10, 10, 10, 10, 10, 5,
-  -5, 0, 0, 0, 0, 0, 0, -5,
-  -5, 0, 0, 0, 0, 0, 0, -5,
-  -5, 0, 0, 0, 0, 0, 0, -5,
-  -5, 0, 0, 0, 0, 0, 0, -5,
-  -5, 0, 0, 0, 0, 0, 0, -5,
-  0, 0, 0, 5, 5, 0, 0, 0,
-];
-
-const QUEEN_TABLE = [
-  -20, -10, -10, -5, -5, -10, -10, -20,
-  -10, 0, 0, 0, 0, 0, 0, -10,
-  -10, 0, 5, 5, 5, 5, 0, -10,
-  -5, 0, 5, 5, 5, 5, 0, -5,
-  0, 0, 5, 5, 5, 5, 0, -5,
-  -10, 5, 5, 5, 5, 5, 0, -10,
-  -10, 0, 5, 0, 0, 0, 0, -10,
-  -20, -10, -10, -5, -5, -10, -10, -20,
-];
-
-const KING_MIDDLE_TABLE = [
-  -30, -40, -40, -50, -50, -40, -40, -30,
-  -30, -40, -40, -50, -50, -40, -40, -30,
-  -30, -40, -40, -50, -50, -40, -40, -30,
-  -30, -40, -40, -50, -50, -40, -40, -30,
-  -20, -30, -30, -40, -40, -30, -30, -20,
-  -10, -20, -20, -20, -20, -20, -20, -10,
-  20, 20, 0, 0, 0, 0, 20, 20,
-  20, 30, 10, 0, 0, 10, 30, 20,
-];
-
-// ---------------------------------------------------------------------------
-// Positional table lookup
-// ---------------------------------------------------------------------------
-
-function getPieceSquareValue(
-  pieceType: string,
-  color: "w" | "b",
-  row: number,
-  col: number
-): number {
-  const tableIndex = row * 8 + col;
-  const mirroredIndex = (7 - row) * 8 + col;
-  const idx = color === "w" ? mirroredIndex : tableIndex;
-
-  switch (pieceType) {
-    case "p":
-      return PAWN_TABLE[idx];
-    case "n":
-      return KNIGHT_TABLE[idx];
-    case "b":
-      return BISHOP_TABLE[idx];
-    case "r":
-      return ROOK_TABLE[idx];
-    case "q":
-      return QUEEN_TABLE[idx];
-    case "k":
-      return KING_MIDDLE_TABLE[idx];
-    default:
-      return 0;
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Board evaluation (returns centipawns from white's perspective)
-// ---------------------------------------------------------------------------
-
-function evaluateBoard(chess: Chess): number {
-  if (chess.isCheckmate()) {
-    return chess.turn() === "w" ? -Infinity : Infinity;
-  }
-  if (chess.isDraw() || chess.isStalemate()) return 0;
-
-  let score = 0;
-  const board = chess.board();
-
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (!piece) continue;
-
-      const material = PIECE_VALUES[piece.type] || 0;
-      const positional = getPieceSquareValue(piece.type, piece.color, row, col);
-
-      if (piece.color === "w") {
-        score += material + positional;
-      } else {
-        score -= material + positional;
-      }
-    }
-  }
+const ANALYSIS_DEPTH = 4;
 
-  return score;
+// Candidate moves reported for each position the player moved in
+const ANALYSIS_LINES = 3;
+
+// Consecutive positions in a game share most of their search tree, so one
+// table is kept for the lifetime of the module.
+const analysisTable = createTranspositionTable(1 << 16);
+
+// A forced mate counts as this many centipawns when measuring loss: missing
+// a mate costs as much as a lost queen and rook, but choosing a slower mate
+// over a quicker one costs nothing.
+const MATE_CENTIPAWNS = 2000;
+
+function searchBuiltIn(fen: string, multiPv: number): SearchResult | null {
+  return searchPosition(new Chess(fen), {
+    evaluate: evaluateBoard,
+    pieceValues: PIECE_VALUES,
+    table: analysisTable,
+    maxDepth: ANALYSIS_DEPTH,
+    multiPv,
+  });
 }
 
-// ---------------------------------------------------------------------------
-// Minimax with alpha-beta pruning
-// ---------------------------------------------------------------------------
-
-function minimax(
-  chess: Chess,
-  depth: number,
-  alpha: number,
-  beta: number,
-  isMaximizing: boolean
-): number {
-  if (depth === 0 || chess.isGameOver()) {
-    return evaluateBoard(chess);
-  }
-
-  const moves = chess.moves();
-
-  if (isMaximizing) {
-    let maxEval = -Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const evalScore = minimax(chess, depth - 1, alpha, beta, false);
-      chess.undo();
-      maxEval = Math.max(maxEval, evalScore);
-      alpha = Math.max(alpha, evalScore);
-      if (beta <= alpha) break;
-    }
-    return maxEval;
-  } else {
-    let minEval = Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const evalScore = minimax(chess, depth - 1, alpha, beta, true);
-      chess.undo();
-      minEval = Math.min(minEval, evalScore);
-      beta = Math.min(beta, evalScore);
-      if (beta <= alpha) break;
-    }
-    return minEval;
-  }
-}
+/** The built-in search, used unless a stronger provider is supplied. */
+export const builtInEngine: EngineProvider = {
+  name: "built-in",
+  async analyse(fen, multiPv) {
+    const result = searchBuiltIn(fen, multiPv);
+    return result && { lines: result.lines, depth: result.depth };
+  },
+};
 
 // ---------------------------------------------------------------------------
 // Public: evaluate a single position
 // ---------------------------------------------------------------------------
 
-const ANALYSIS_DEPTH = 4;
-
 /**
- * Evaluate a position from a FEN string.
+ * Evaluate a position from a FEN string with the built-in engine.
  * Returns centipawns from white's perspective.
  * Positive = white is better, negative = black is better.
+ * Forced mates come back as mate scores; decode them with getMateIn().
+ * Positions already in the position cache aren't searched again.
  */
 export function evaluatePosition(fen: string): number {
   const chess = new Chess(fen);
@@ -220,54 +89,43 @@ export function evaluatePosition(fen: string): number {
     return evaluateBoard(chess);
   }
 
-  // Run minimax from the current side to move
-  const isMaximizing = chess.turn() === "w";
-  return minimax(chess, ANALYSIS_DEPTH, -Infinity, Infinity, isMaximizing);
-}
+  const cache = getPositionCache();
+  const cached = cache.get(fen, builtInEngine.name, 1);
+  if (cached) return cached.lines[0].score;
 
-// ---------------------------------------------------------------------------
-// Find the best move and its evaluation for a given position
-// ---------------------------------------------------------------------------
+  const result = searchBuiltIn(fen, 1);
+  if (!result) return evaluateBoard(chess);
+  cache.set(fen, builtInEngine.name, 1, { lines: result.lines, depth: result.depth });
+  return result.score;
+}
 
-interface BestMoveResult {
-  bestMoveSan: string;
-  bestEval: number; // centipawns from white's perspective
+/**
+ * Score a position through an engine provider, as game analysis does.
+ * Returns centipawns from white's perspective, or a mate score; positions
+ * with no legal moves are scored directly.
+ */
+export async function scorePosition(
+  fen: string,
+  provider: EngineProvider = builtInEngine
+): Promise<number> {
+  const analysis = await withPositionCache(provider, getPositionCache()).analyse(fen, 1);
+  return analysis ? analysis.lines[0].score : evaluateBoard(new Chess(fen));
 }
 
-function findBestMoveAndEval(fen: string): BestMoveResult | null {
-  const chess = new Chess(fen);
-  const moves = chess.moves();
-  if (moves.length === 0) return null;
-
-  const isMaximizing = chess.turn() === "w";
-  let bestMove = moves[0];
-  let bestEval = isMaximizing ? -Infinity : Infinity;
-
-  for (const move of moves) {
-    chess.move(move);
-    const evalScore = minimax(
-      chess,
-      ANALYSIS_DEPTH - 1,
-      -Infinity,
-      Infinity,
-      !isMaximizing
-    );
-    chess.undo();
-
-    if (isMaximizing) {
-      if (evalScore > bestEval) {
-        bestEval = evalScore;
-        bestMove = move;
-      }
-    } else {
-      if (evalScore < bestEval) {
-        bestEval = evalScore;
-        bestMove = move;
-      }
-    }
-  }
+// Mate scores replaced by a fixed centipawn value, for measuring loss
+function toCentipawns(score: number): number {
+  return isMateScore(score) ? Math.sign(score) * MATE_CENTIPAWNS : score;
+}
 
-  return { bestMoveSan: bestMove, bestEval };
+function toCandidate(line: SearchLine): CandidateMove {
+  const candidate: CandidateMove = {
+    move: line.move,
+    centipawns: toCentipawns(line.score),
+    line: line.pv.join(" "),
+  };
+  const mate = getMateIn(line.score);
+  if (mate !== null) candidate.mate = mate;
+  return candidate;
 }
 
 // ---------------------------------------------------------------------------
@@ -275,69 +133,106 @@ function findBestMoveAndEval(fen: string): BestMoveResult | null {
 // ---------------------------------------------------------------------------
 
 /**
- * Classify a move based on centipawn loss and whether the move was
- * non-obvious (for "brilliant" detection).
+ * Classify a move based on how much winning chance it gave away and
+ * whether the move was non-obvious (for "brilliant" detection). Working in
+ * win percentage rather than centipawns means dropping a pawn when the
+ * game is level is judged harder than dropping one that's already won.
  *
- * @param cpLoss        - How many centipawns were lost vs the best move (>= 0)
+ * @param winDrop       - Win-% points lost vs the best move (>= 0)
  * @param isBestMove    - True if the player played the engine's top choice
  * @param isOnlyLegal   - True if there was only one legal move
- * @param cpGain        - Centipawn swing in the player's favour (for brilliant detection)
- * @param isSacrifice   - True if the move sacrificed material
+ * @param winAfter      - Mover's win % after the move (for brilliant detection)
+ * @param isSacrifice   - True if the move gave up material (see static-exchange.ts)
  */
 function classifyMove(
-  cpLoss: number,
+  winDrop: number,
   isBestMove: boolean,
   isOnlyLegal: boolean,
-  cpGain: number,
+  winAfter: number,
   isSacrifice: boolean
 ): MoveClassification {
   // Only one legal move — forced
   if (isOnlyLegal) return "forced";
 
-  // Brilliant: a sacrifice or non-obvious move that gains 50+ cp and is
-  // the best (or near-best) move
-  if (isSacrifice && cpGain >= 50 && cpLoss <= 10) return "brilliant";
+  // Brilliant: a sacrifice that is the best (or near-best) move and
+  // leaves the mover at least level
+  if (isSacrifice && winDrop <= 2 && winAfter >= 50) return "brilliant";
 
-  // Great: best move or within 10cp of the best
-  if (cpLoss <= 10) return "great";
+  // Great: best move or within 2 points of the best
+  if (winDrop <= 2) return "great";
 
-  // Good: within 30cp
-  if (cpLoss <= 30) return "good";
+  // Good: within 5 points
+  if (winDrop <= 5) return "good";
 
-  // Inaccuracy: 30-80cp loss
-  if (cpLoss <= 80) return "inaccuracy";
+  // Inaccuracy: 5-10 points lost
+  if (winDrop <= 10) return "inaccuracy";
 
-  // Mistake: 80-200cp loss
-  if (cpLoss <= 200) return "mistake";
+  // Mistake: 10-20 points lost
+  if (winDrop <= 20) return "mistake";
 
-  // Blunder: 200+ cp loss
+  // Blunder: more than 20 points lost
   return "blunder";
 }
 
 // ---------------------------------------------------------------------------
-// Detect material sacrifice
+// Per-side summary
 // ---------------------------------------------------------------------------
 
-function isSacrificingMaterial(move: SavedMove): boolean {
-  // A move that gives up material (captured piece value < moved piece value
-  // on a capture square, or simply moves a piece to a square it can be
-  // captured). As a simple heuristic: it's a sacrifice if the piece is
-  // captured on the next move or if it moves without taking a higher-value
-  // piece.
-  if (!move.captured) {
-    // Non-capture moves can be sacrifices (e.g., placing a piece where it
-    // can be taken). We approximate this as any non-pawn piece move to a
-    // potentially attacked square, but for simplicity at depth-4 analysis
-    // we only flag captures where value is lost.
-    return false;
-  }
+// What one side's moves added up to over the game
+interface SideTally {
+  // Winning chances before each move out of book, each move's accuracy
+  // and the phase it was played in
+  winPercents: number[];
+  accuracies: number[];
+  phases: GamePhase[];
+  counts: Record<MoveClassification, number>;
+}
 
-  const movedValue = PIECE_VALUES[move.piece] || 0;
-  const capturedValue = PIECE_VALUES[move.captured] || 0;
+function createTally(): SideTally {
+  return {
+    winPercents: [],
+    accuracies: [],
+    phases: [],
+    counts: {
+      brilliant: 0,
+      great: 0,
+      good: 0,
+      inaccuracy: 0,
+      mistake: 0,
+      blunder: 0,
+      book: 0,
+      forced: 0,
+    },
+  };
+}
+
+function summarize(tally: SideTally): AnalysisSummary {
+  // Per-move accuracies combined, weighting the sharpest stretches of
+  // the game most (100 when the side made no moves out of book)
+  const accuracy = gameAccuracy(tally.winPercents, tally.accuracies);
+
+  // The same for each phase the side made moves in
+  const phaseAccuracy: Partial<Record<GamePhase, number>> = {};
+  for (const phase of GAME_PHASES) {
+    const moves = tally.phases.flatMap((moved, index) => (moved === phase ? [index] : []));
+    if (moves.length === 0) continue;
+    const accuracy = gameAccuracy(
+      moves.map((index) => tally.winPercents[index]),
+      moves.map((index) => tally.accuracies[index])
+    );
+    phaseAccuracy[phase] = Math.round(accuracy * 10) / 10;
+  }
 
-  // Sacrificing if you trade down (e.g., queen takes pawn in a position
-  // where the queen can be recaptured)
-  return movedValue > capturedValue + 100;
+  return {
+    accuracy: Math.round(accuracy * 10) / 10, // one decimal place
+    phaseAccuracy,
+    brilliant: tally.counts.brilliant,
+    great: tally.counts.great,
+    good: tally.counts.good,
+    inaccuracies: tally.counts.inaccuracy,
+    mistakes: tally.counts.mistake,
+    blunders: tally.counts.blunder,
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -345,31 +240,37 @@ function isSacrificingMaterial(move: SavedMove): boolean {
 // ---------------------------------------------------------------------------
 
 /**
- * Analyse every move in a completed game.
+ * Analyse every move in a completed game, by both sides.
  *
  * @param moves       - Array of SavedMove from the game
  * @param playerColor - Which colour the player was ("white" | "black")
  * @param onProgress  - Optional callback (currentMove, totalMoves) for UI
- * @returns           - Full GameAnalysis object
+ * @param signal      - Optional AbortSignal; analysis stops at the next move
+ * @param provider    - Engine to analyse with (the built-in one by default)
+ * @param book        - Opening book for theory moves (the active one by default)
+ * @param cache       - Positions analysed before (the shared cache by default;
+ *                      null to search every position)
+ * @returns           - Full GameAnalysis object; `summary` is the player's
  */
 export async function analyzeGame(
   moves: SavedMove[],
   playerColor: "white" | "black",
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  provider: EngineProvider = builtInEngine,
+  book = getOpeningBook(),
+  cache: PositionCache | null = getPositionCache()
 ): Promise<GameAnalysis> {
+  const engine = cache ? withPositionCache(provider, cache) : provider;
   const evaluations: (MoveEvaluation | null)[] = [];
-  const playerColorCode: "w" | "b" = playerColor === "white" ? "w" : "b";
+  const tallies = { w: createTally(), b: createTally() };
 
-  let totalCpLoss = 0;
-  let playerMoveCount = 0;
+  // The game is in theory until the first move the book doesn't know
+  let inBook = book !== null;
 
-  // Classification counters
-  let brilliant = 0;
-  let great = 0;
-  let good = 0;
-  let inaccuracies = 0;
-  let mistakes = 0;
-  let blunders = 0;
+  // Each move's position after is the next move's position before, so its
+  // analysis is kept to save searching it twice
+  let previous: { fen: string; analysis: PositionAnalysis | null } | null = null;
 
   for (let i = 0; i < moves.length; i++) {
     const move = moves[i];
@@ -379,62 +280,83 @@ export async function analyzeGame(
       await new Promise<void>((r) => setTimeout(r, 0));
     }
 
+    if (signal?.aborted) {
+      throw new Error("Analysis stopped");
+    }
+
     // Report progress
     if (onProgress) {
       onProgress(i + 1, moves.length);
     }
 
-    // We only deeply evaluate the player's moves. Opponent moves get a
-    // null evaluation (we still need the position eval for context).
-    if (move.color !== playerColorCode) {
-      evaluations.push(null);
+    const bookMoves = inBook ? book!.lookup(move.fenBefore) : [];
+    inBook = bookMoves.some((bookMove) => bookMove.san === move.san);
+
+    const tally = tallies[move.color];
+    const phase = classifyPhase(move.fenBefore);
+
+    // --- Evaluate the position AFTER the move ---
+    // (finished games have no analysis and are scored directly)
+    const after: PositionAnalysis | null = await engine.analyse(move.fen, ANALYSIS_LINES);
+    const scoreAfter = after ? after.lines[0].score : evaluateBoard(new Chess(move.fen));
+    const evalAfter = toCentipawns(scoreAfter);
+    const mate = getMateIn(scoreAfter);
+
+    // --- Evaluate the position BEFORE the move ---
+    const before: PositionAnalysis | null =
+      previous?.fen === move.fenBefore
+        ? previous.analysis
+        : await engine.analyse(move.fenBefore, ANALYSIS_LINES);
+    previous = { fen: move.fen, analysis: after };
+
+    // Theory needs no judging: keep the score for the graph and move on
+    if (inBook) {
+      const evaluation: MoveEvaluation = {
+        centipawns: evalAfter,
+        bestMove: bookMoves[0].san,
+        classification: "book",
+        cpLoss: 0,
+        phase,
+      };
+      if (mate !== null) evaluation.mate = mate;
+      tally.counts.book++;
+      evaluations.push(evaluation);
       continue;
     }
 
-    playerMoveCount++;
-
-    // --- Evaluate the position BEFORE the player moved ---
-    const bestResult = findBestMoveAndEval(move.fenBefore);
-
-    if (!bestResult) {
+    if (!before) {
       // No legal moves (shouldn't happen if the game record is valid)
       evaluations.push(null);
       continue;
     }
 
-    const bestEvalBefore = bestResult.bestEval;
-    const bestMoveSan = bestResult.bestMoveSan;
-
-    // --- Evaluate the position AFTER the player's move ---
-    const evalAfter = evaluatePosition(move.fen);
+    const bestEvalBefore = toCentipawns(before.lines[0].score);
+    const bestMoveSan = before.lines[0].move;
 
     // --- Compute centipawn loss ---
-    // From the player's perspective: how much worse is the position after
+    // From the mover's perspective: how much worse is the position after
     // their move compared to what the best move would have achieved?
     //
     // bestEvalBefore is the evaluation assuming the best move is played.
-    // evalAfter is the evaluation of the position the player actually
-    // reached.
+    // evalAfter is the evaluation of the position actually reached.
     //
     // For white: higher eval is better  -> cpLoss = bestEvalBefore - evalAfter
     // For black: lower eval is better   -> cpLoss = evalAfter - bestEvalBefore
-    let cpLoss: number;
-    if (playerColorCode === "w") {
-      cpLoss = bestEvalBefore - evalAfter;
-    } else {
-      cpLoss = evalAfter - bestEvalBefore;
-    }
+    const perspective = move.color === "w" ? 1 : -1;
 
-    // Clamp: if the player somehow did better than the engine's best
+    // Clamp: if the mover somehow did better than the engine's best
     // (can happen with horizon effects), treat as 0 loss.
-    cpLoss = Math.max(0, cpLoss);
-
-    // Cap infinite evals (checkmate) for classification purposes
-    if (!isFinite(cpLoss)) {
-      cpLoss = cpLoss > 0 ? 9999 : 0;
-    }
-
-    totalCpLoss += cpLoss;
+    const cpLoss = Math.max(0, perspective * (bestEvalBefore - evalAfter));
+
+    // --- Compute win-percentage drop ---
+    // The same comparison in winning chances, from the mover's side
+    const winBefore = winPercent(perspective * bestEvalBefore);
+    const winAfter = winPercent(perspective * evalAfter);
+    const winDrop = Math.max(0, winBefore - winAfter);
+    const accuracy = moveAccuracy(winBefore, winAfter);
+    tally.winPercents.push(winBefore);
+    tally.accuracies.push(accuracy);
+    tally.phases.push(phase);
 
     // --- Check how many legal moves existed ---
     const tempChess = new Chess(move.fenBefore);
@@ -442,84 +364,50 @@ export async function analyzeGame(
     const isOnlyLegal = legalMoves.length === 1;
     const isBestMove = move.san === bestMoveSan;
 
-    // --- Compute centipawn gain (for brilliant detection) ---
-    // How much better is the position now compared to before the move,
-    // from the player's perspective?
-    const evalBefore = evaluatePosition(move.fenBefore);
-    let cpGain: number;
-    if (playerColorCode === "w") {
-      cpGain = evalAfter - evalBefore;
-    } else {
-      cpGain = evalBefore - evalAfter;
-    }
-    cpGain = Math.max(0, cpGain);
-
-    const sacrifice = isSacrificingMaterial(move);
-
     // --- Classify ---
     const classification = classifyMove(
-      cpLoss,
+      winDrop,
       isBestMove,
       isOnlyLegal,
-      cpGain,
-      sacrifice
+      winAfter,
+      isSacrifice(move.fenBefore, move.san)
     );
+    tally.counts[classification]++;
 
-    // Update counters
-    switch (classification) {
-      case "brilliant":
-        brilliant++;
-        break;
-      case "great":
-        great++;
-        break;
-      case "good":
-        good++;
-        break;
-      case "inaccuracy":
-        inaccuracies++;
-        break;
-      case "mistake":
-        mistakes++;
-        break;
-      case "blunder":
-        blunders++;
-        break;
-      // "forced" and "book" don't count towards classifications
-    }
-
-    evaluations.push({
+    const candidates = before.lines.map(toCandidate);
+    const evaluation: MoveEvaluation = {
       centipawns: evalAfter,
       bestMove: bestMoveSan,
+      bestLine: candidates[0].line,
+      candidates,
       classification,
       cpLoss: Math.round(cpLoss),
-    });
+      accuracy: Math.round(accuracy * 10) / 10,
+      phase,
+    };
+    if (mate !== null) evaluation.mate = mate;
+
+    // --- Name the tactic behind a mistake ---
+    if (classification === "mistake" || classification === "blunder") {
+      const motifs = detectMotifs(
+        move.fenBefore,
+        move.san,
+        before.lines[0].pv,
+        after?.lines[0].pv
+      );
+      if (motifs.length > 0) evaluation.motifs = motifs;
+    }
+
+    evaluations.push(evaluation);
   }
 
-  // --- Compute accuracy ---
-  // Formula: 100 * (1 - totalCpLoss / (numberOfPlayerMoves * 50))
-  // Bounded between 0 and 100.
-  const accuracy =
-    playerMoveCount > 0
-      ? Math.max(
-          0,
-          Math.min(100, 100 * (1 - totalCpLoss / (playerMoveCount * 50)))
-        )
-      : 100;
-
-  const summary: AnalysisSummary = {
-    accuracy: Math.round(accuracy * 10) / 10, // one decimal place
-    brilliant,
-    great,
-    good,
-    inaccuracies,
-    mistakes,
-    blunders,
-  };
+  const sides = { white: summarize(tallies.w), black: summarize(tallies.b) };
 
   return {
     evaluations,
-    summary,
+    summary: sides[playerColor],
+    sides,
+    criticalMoments: findCriticalMoments(moves, evaluations),
     analyzedAt: new Date().toISOString(),
   };
 }
@@ -1,193 +1,429 @@
 import { Chess, Move } from "chess.js";
+import { createTranspositionTable } from "./transposition-table";
+import {
+  searchPosition,
+  searchPositionAsync,
+  type SearchOptions,
+  type SearchResult,
+} from "./search";
+import { createEvaluator, isMateScore, PIECE_VALUES } from "./evaluation";
+import { getOpeningBook, pickBookMove } from "./opening-book";
+import {
+  DEFAULT_PERSONALITY,
+  getPersonality,
+  type Personality,
+  type PersonalityId,
+} from "./personalities";
+
+// Range of the AI's playing strength, as a rough Elo rating
+export const MIN_RATING = 400;
+export const MAX_RATING = 2200;
+export const DEFAULT_RATING = 1200;
+
+/**
+ * Ratings for the named difficulties games were played at before strength
+ * became continuous, so saved games and old settings still map to one.
+ */
+export const DIFFICULTY_RATINGS: Record<string, number> = {
+  beginner: 600,
+  intermediate: 1400,
+  advanced: 2000,
+};
 
-export type Difficulty = "beginner" | "intermediate" | "advanced";
-
-interface EngineConfig {
-  depth: number;
+/** How a rating translates into search settings and mistakes. */
+export interface StrengthProfile {
+  depth: number; // maximum iterative-deepening depth
   minThinkTime: number; // ms - minimum time before returning move
+  maxThinkTime: number; // ms - search budget when no clock is running
+  noise: number; // standard deviation of the error added to move scores, in cp
+  blunderChance: number; // probability of deliberately playing a worse move
+  blunderScale: number; // cp; how much worse a blunder tends to be
+  lines: number; // root moves scored exactly, for noise and blunders to choose from
 }
 
-const DIFFICULTY_CONFIG: Record<Difficulty, EngineConfig> = {
-  beginner: { depth: 2, minThinkTime: 500 },
-  intermediate: { depth: 8, minThinkTime: 800 },
-  advanced: { depth: 15, minThinkTime: 1000 },
-};
+export function clampRating(rating: number): number {
+  if (!Number.isFinite(rating)) return DEFAULT_RATING;
+  return Math.round(Math.min(MAX_RATING, Math.max(MIN_RATING, rating)));
+}
 
-// Simple evaluation-based AI that works without external WASM
-// Uses material counting + positional bonuses for decent play
-const PIECE_VALUES: Record<string, number> = {
-  p: 100,
-  n: 320,
-  b: 330,
-  r: 500,
-  q: 900,
-  k: 20000,
-};
+/**
+ * Search settings for a rating. Weaker levels search shallower, misjudge
+ * moves by more, and blunder more often and more heavily; at MAX_RATING
+ * the engine plays its best move.
+ */
+export function getStrengthProfile(rating: number): StrengthProfile {
+  // 0 at MIN_RATING, 1 at MAX_RATING
+  const skill = (clampRating(rating) - MIN_RATING) / (MAX_RATING - MIN_RATING);
+  const weakness = 1 - skill;
+  return {
+    depth: 1 + Math.round(skill * 14),
+    minThinkTime: Math.round(400 + skill * 600),
+    maxThinkTime: Math.round(500 + skill * 4500),
+    noise: Math.round(120 * weakness),
+    blunderChance: Math.round(250 * weakness * weakness) / 1000,
+    blunderScale: Math.round(50 + 450 * weakness),
+    // Each line is a root move that can't be cut off early, so even the
+    // weakest level only picks from a handful
+    lines: skill === 1 ? 1 : 4 + Math.round(2 * weakness),
+  };
+}
 
-// Piece-square tables for positional evaluation
-const PAWN_TABLE = [
-  0, 0, 0, 0, 0, 0, 0, 0,
-  50, 50, 50, 50, 50, 50, 50, 50,
-  10, 10, 20, 30, 30, 20, 10, 10,
-  5, 5, 10, 25, 25, 10, 5, 5,
-  0, 0, 0, 20, 20, 0, 0, 0,
-  5, -5, -10, 0, 0, -10, -5, 5,
-  5, 10, 10, -20, -20, 10, 10, 5,
-  0, 0, 0, 0, 0, 0, 0, 0,
-];
-
-const KNIGHT_TABLE = [
-  -50, -40, -30, -30, -30, -30, -40, -50,
-  -40, -20, 0, 0, 0, 0, -20, -40,
-  -30, 0, 10, 15, 15, 10, 0, -30,
-  -30, 5, 15, 20, 20, 15, 5, -30,
-  -30, 0, 15, 20, 20, 15, 0, -30,
-  -30, 5, 10, 15, 15, 10, 5, -30,
-  -40, -20, 0, 5, 5, 0, -20, -40,
-  -50, -40, -30, -30, -30, -30, -40, -50,
-];
-
-function evaluateBoard(chess: Chess): number {
-  if (chess.isCheckmate()) {
-    return chess.turn() === "w" ? -Infinity : Infinity;
-  }
-  if (chess.isDraw() || chess.isStalemate()) return 0;
+/** Remaining time on the engine's clock, in milliseconds. */
+export interface ClockState {
+  remaining: number;
+  increment: number;
+}
 
-  let score = 0;
-  const board = chess.board();
+/**
+ * How long the engine may think for this move. With a clock we spend
+ * roughly 1/30th of the remaining time plus most of the increment, but
+ * never more than the rating's own budget.
+ */
+export function getThinkTimeBudget(rating: number, clock?: ClockState): number {
+  const { maxThinkTime } = getStrengthProfile(rating);
+  if (!clock) return maxThinkTime;
+  const fromClock = clock.remaining / 30 + clock.increment * 0.8;
+  // Keep a safety margin so we never flag on the move itself
+  const ceiling = Math.max(50, clock.remaining - 500);
+  return Math.max(50, Math.min(maxThinkTime, fromClock, ceiling));
+}
 
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (!piece) continue;
+// Shared across findBestMove calls so positions searched on earlier turns
+// (and transpositions within a search) are reused. Cleared by resetEngine().
+const transpositionTable = createTranspositionTable();
 
-      const value = PIECE_VALUES[piece.type] || 0;
-      const tableIndex = row * 8 + col;
-      const mirroredIndex = (7 - row) * 8 + col;
-
-      let positional = 0;
-      if (piece.type === "p") {
-        positional = piece.color === "w" ? PAWN_TABLE[mirroredIndex] : PAWN_TABLE[tableIndex];
-      } else if (piece.type === "n") {
-        positional = piece.color === "w" ? KNIGHT_TABLE[mirroredIndex] : KNIGHT_TABLE[tableIndex];
-      }
+/**
+ * Forget everything learned during the current game. Call when starting or
+ * loading a different game so stale entries don't crowd out useful ones.
+ */
+export function resetEngine(): void {
+  transpositionTable.clear();
+}
 
-      if (piece.color === "w") {
-        score += value + positional;
-      } else {
-        score -= value + positional;
-      }
-    }
+// Evaluation functions by personality, built on first use
+const evaluators = new Map<PersonalityId, (chess: Chess) => number>();
+// Personality whose evaluation the table's scores come from
+let tablePersonality: PersonalityId | null = null;
+
+// The evaluation for a personality's search, clearing the table when it
+// holds another personality's scores
+function prepareSearch(personality: Personality): (chess: Chess) => number {
+  if (tablePersonality !== personality.id) {
+    transpositionTable.clear();
+    tablePersonality = personality.id;
+  }
+  let evaluate = evaluators.get(personality.id);
+  if (!evaluate) {
+    evaluate = createEvaluator(personality.weights);
+    evaluators.set(personality.id, evaluate);
   }
+  return evaluate;
+}
+
+// Root moves scored for a personality that plays for traps
+const TRAP_CANDIDATES = 4;
+// How deep replies to a candidate are checked, and how much (cp) a reply
+// must lose against the best one to count as falling into a trap
+const TRAP_DEPTH = 2;
+const TRAP_GAIN = 150;
 
-  return score;
+// Root moves to score exactly: the rating's, or enough to look for traps
+function rootLines(profile: StrengthProfile, personality: Personality): number {
+  return Math.max(profile.lines, personality.trapMargin > 0 ? TRAP_CANDIDATES : 1);
 }
 
-function minimax(
-  chess: Chess,
-  depth: number,
-  alpha: number,
-  beta: number,
-  isMaximizing: boolean
-): number {
-  if (depth === 0 || chess.isGameOver()) {
-    return evaluateBoard(chess);
-  }
+// When the trap search has to stop: the main search's deadline and stop
+// check
+type TrapLimits = Pick<SearchOptions, "deadline" | "shouldStop">;
 
-  const moves = chess.moves();
+function timeUp({ deadline, shouldStop }: TrapLimits): boolean {
+  return (deadline !== undefined && Date.now() >= deadline) || (shouldStop?.() ?? false);
+}
 
-  if (isMaximizing) {
-    let maxEval = -Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const evalScore = minimax(chess, depth - 1, alpha, beta, false);
+// How many of the opponent's captures after `move` lose material: bait
+// that looks free but isn't. Stops counting when `limits` say so.
+async function countTraps(
+  chess: Chess,
+  move: string,
+  evaluate: (chess: Chess) => number,
+  limits: TrapLimits
+): Promise<number> {
+  const sign = chess.turn() === "w" ? 1 : -1;
+  const search = (maxDepth: number) =>
+    searchPositionAsync(chess, {
+      evaluate,
+      pieceValues: PIECE_VALUES,
+      table: transpositionTable,
+      maxDepth,
+      ...limits,
+    });
+
+  chess.move(move);
+  try {
+    const best = await search(TRAP_DEPTH + 1);
+    if (!best) return 0;
+    let traps = 0;
+    for (const reply of chess.moves()) {
+      if (!reply.includes("x")) continue;
+      if (timeUp(limits)) break;
+      chess.move(reply);
+      const score = (await search(TRAP_DEPTH))?.score ?? evaluate(chess);
       chess.undo();
-      maxEval = Math.max(maxEval, evalScore);
-      alpha = Math.max(alpha, evalScore);
-      if (beta <= alpha) break;
+      if ((score - best.score) * sign >= TRAP_GAIN) traps++;
     }
-    return maxEval;
-  } else {
-    let minEval = Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const evalScore = minimax(chess, depth - 1, alpha, beta, true);
-      chess.undo();
-      minEval = Math.min(minEval, evalScore);
-      beta = Math.min(beta, evalScore);
-      if (beta <= alpha) break;
+    return traps;
+  } finally {
+    chess.undo();
+  }
+}
+
+/**
+ * For personalities that play for traps: among the moves within the
+ * personality's margin of the best, the one leaving the most losing
+ * captures for the opponent. Null when none of them sets a trap, or when
+ * time is up (or the search stopped) before any could be checked;
+ * candidates are only looked at while time remains.
+ */
+async function findTrap(
+  chess: Chess,
+  result: SearchResult,
+  personality: Personality,
+  evaluate: (chess: Chess) => number,
+  limits: TrapLimits
+): Promise<string | null> {
+  if (personality.trapMargin <= 0 || timeUp(limits)) return null;
+  const sign = chess.turn() === "w" ? 1 : -1;
+  const best = result.lines[0].score * sign;
+
+  let choice: string | null = null;
+  let mostTraps = 0;
+  for (const line of result.lines.slice(0, TRAP_CANDIDATES)) {
+    if (isMateScore(line.score)) continue;
+    if (best - line.score * sign > personality.trapMargin) continue;
+    if (timeUp(limits)) break;
+    const traps = await countTraps(chess, line.move, evaluate, limits);
+    if (traps > mostTraps) {
+      choice = line.move;
+      mostTraps = traps;
     }
-    return minEval;
   }
+  return choice;
 }
 
-function findBestMove(chess: Chess, difficulty: Difficulty): string | null {
-  const config = DIFFICULTY_CONFIG[difficulty];
-  const moves = chess.moves();
-  if (moves.length === 0) return null;
+// Forced mates count as this many centipawns when comparing moves, so
+// noise and blunder weights stay finite
+const MATE_CENTIPAWNS = 2000;
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: () => number): number {
+  const u = 1 - random(); // (0, 1], safe for the log
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
 
-  // For beginner, add randomness
-  if (difficulty === "beginner") {
-    // 40% chance of random move at beginner level
-    if (Math.random() < 0.4) {
-      return moves[Math.floor(Math.random() * moves.length)];
+/**
+ * Pick the move a player of the profile's strength would choose from the
+ * scored root moves. Usually the best move after each score is blurred
+ * by noise; with probability `blunderChance` one of the worse moves, with
+ * small slips far likelier than throwing the game away.
+ */
+function chooseMove(
+  result: SearchResult,
+  turn: "w" | "b",
+  profile: StrengthProfile,
+  random: () => number = Math.random
+): string {
+  const sign = turn === "w" ? 1 : -1;
+  const scored = result.lines.map((line) => ({
+    move: line.move,
+    score: isMateScore(line.score)
+      ? Math.sign(line.score * sign) * MATE_CENTIPAWNS
+      : line.score * sign,
+  }));
+  if (scored.length < 2) return result.bestMove;
+
+  if (random() < profile.blunderChance) {
+    const best = scored[0].score;
+    const worse = scored.slice(1).map((line) => ({
+      move: line.move,
+      weight: Math.exp(-(best - line.score) / profile.blunderScale),
+    }));
+    const total = worse.reduce((sum, line) => sum + line.weight, 0);
+    let roll = random() * total;
+    for (const line of worse) {
+      roll -= line.weight;
+      if (roll < 0) return line.move;
     }
+    return worse[worse.length - 1].move;
   }
 
-  const isMaximizing = chess.turn() === "w";
-  let bestMove = moves[0];
-  let bestEval = isMaximizing ? -Infinity : Infinity;
-
-  for (const move of moves) {
-    chess.move(move);
-    const evalScore = minimax(
-      chess,
-      config.depth - 1,
-      -Infinity,
-      Infinity,
-      !isMaximizing
-    );
-    chess.undo();
-
-    if (isMaximizing) {
-      if (evalScore > bestEval) {
-        bestEval = evalScore;
-        bestMove = move;
-      }
-    } else {
-      if (evalScore < bestEval) {
-        bestEval = evalScore;
-        bestMove = move;
-      }
+  let choice = scored[0];
+  let choiceScore = -Infinity;
+  for (const line of scored) {
+    const noisy = line.score + gaussian(random) * profile.noise;
+    if (noisy > choiceScore) {
+      choice = line;
+      choiceScore = noisy;
     }
   }
+  return choice.move;
+}
+
+/**
+ * Search for the AI's move: a book move while the opening book has one,
+ * otherwise iterative deepening with the personality's evaluation up to
+ * the rating's maximum depth or until the time budget runs out, then a
+ * trap if the personality sets them, or a choice among the scored moves
+ * to match the rating.
+ */
+async function findBestMove(
+  chess: Chess,
+  rating: number,
+  budgetMs: number,
+  personality: Personality
+): Promise<string | null> {
+  const profile = getStrengthProfile(rating);
+  const moves = chess.moves();
+  if (moves.length === 0) return null;
 
-  return bestMove;
+  const bookMove = pickBookMove(getOpeningBook()?.lookup(chess.fen()) ?? []);
+  if (bookMove) return bookMove.san;
+
+  // Only one legal move - no need to think
+  if (moves.length === 1) return moves[0];
+
+  const evaluate = prepareSearch(personality);
+  const deadline = Date.now() + budgetMs;
+  const result = searchPosition(chess, {
+    evaluate,
+    pieceValues: PIECE_VALUES,
+    table: transpositionTable,
+    maxDepth: profile.depth,
+    deadline,
+    multiPv: rootLines(profile, personality),
+  });
+  if (!result) return moves[0];
+  return (
+    (await findTrap(chess, result, personality, evaluate, { deadline })) ??
+    chooseMove(result, chess.turn(), profile)
+  );
 }
 
+/**
+ * Pick the AI's move at the given rating, in the personality's style.
+ * Thinks for up to the rating's time budget (or a share of `clock` when
+ * one is running) but never less than its minimum think time, so replies
+ * don't feel instant.
+ */
 export async function getAIMove(
   fen: string,
-  difficulty: Difficulty
+  rating: number,
+  clock?: ClockState,
+  personality: PersonalityId = DEFAULT_PERSONALITY
 ): Promise<Move | null> {
-  const config = DIFFICULTY_CONFIG[difficulty];
+  const { minThinkTime } = getStrengthProfile(rating);
   const startTime = Date.now();
 
   const chess = new Chess(fen);
-  const bestMoveSan = findBestMove(chess, difficulty);
+  const bestMoveSan = await findBestMove(
+    chess,
+    rating,
+    getThinkTimeBudget(rating, clock),
+    getPersonality(personality)
+  );
   if (!bestMoveSan) return null;
 
   // Ensure minimum think time for natural feel
   const elapsed = Date.now() - startTime;
-  if (elapsed < config.minThinkTime) {
-    await new Promise((resolve) =>
-      setTimeout(resolve, config.minThinkTime - elapsed)
-    );
+  if (elapsed < minThinkTime) {
+    await new Promise((resolve) => setTimeout(resolve, minThinkTime - elapsed));
   }
 
   const move = chess.move(bestMoveSan);
   return move;
 }
 
+/** Explicit search limits, as given by a UCI "go" command. */
+export interface SearchLimits {
+  depth?: number; // replaces the rating's maximum depth
+  moveTime?: number; // ms to think, replacing the time budget
+  clock?: ClockState;
+  infinite?: boolean; // search until stopped
+}
+
+/** Reported after each completed iteration of searchWithLimits. */
+export interface SearchProgress {
+  depth: number;
+  score: number; // centipawns from white's perspective, or a mate score
+  pv: string[]; // SAN
+  nodes: number;
+}
+
+// Depth cap for searches with no depth or time limit
+const MAX_SEARCH_DEPTH = 64;
+
+/**
+ * Search for the engine's move under explicit limits, for tools that drive
+ * the engine directly (the UCI adapter). The rating and personality still
+ * decide the default depth and budget, the evaluation and the final choice
+ * among the scored moves, so measured strength matches play. The search
+ * hands back to the event loop as it goes, so `signal` stops it promptly,
+ * even mid-iteration; the move from the last completed iteration is
+ * returned.
+ */
+export async function searchWithLimits(
+  fen: string,
+  rating: number,
+  limits: SearchLimits = {},
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (progress: SearchProgress) => void;
+    personality?: PersonalityId;
+  } = {}
+): Promise<string | null> {
+  const profile = getStrengthProfile(rating);
+  const personality = getPersonality(options.personality);
+  const evaluate = prepareSearch(personality);
+  const chess = new Chess(fen);
+  const moves = chess.moves();
+  if (moves.length === 0) return null;
+
+  const unlimited = limits.infinite || limits.depth !== undefined;
+  const maxDepth = limits.depth ?? (limits.infinite ? MAX_SEARCH_DEPTH : profile.depth);
+  const budget =
+    limits.moveTime ??
+    (limits.clock
+      ? getThinkTimeBudget(rating, limits.clock)
+      : unlimited
+        ? undefined
+        : profile.maxThinkTime);
+  const deadline = budget === undefined ? undefined : Date.now() + budget;
+
+  const stopped = () => options.signal?.aborted ?? false;
+
+  const last = await searchPositionAsync(chess, {
+    evaluate,
+    pieceValues: PIECE_VALUES,
+    table: transpositionTable,
+    maxDepth,
+    deadline,
+    shouldStop: stopped,
+    multiPv: rootLines(profile, personality),
+    onIteration: (result) =>
+      options.onProgress?.({
+        depth: result.depth,
+        score: result.score,
+        pv: result.pv,
+        nodes: result.nodes,
+      }),
+  });
+
+  if (!last) return moves[0];
+  return (
+    (await findTrap(chess, last, personality, evaluate, { deadline, shouldStop: stopped })) ??
+    chooseMove(last, chess.turn(), profile)
+  );
+}
+
 export function getMaterialCount(chess: Chess): { white: number; black: number } {
   const board = chess.board();
   let white = 0;
@@ -0,0 +1,91 @@
+/**
+ * Critical moments: the few moves of a game that decided it. They're found
+ * from a finished analysis, so a review can jump straight to them instead
+ * of stepping through every move.
+ */
+
+import { winPercent } from "./accuracy";
+import type { CriticalMoment, MoveEvaluation, SavedMove } from "./game-storage";
+
+// A win-percentage swing of this many points in one move changes the game
+const SWING = 20;
+
+// A missed win: the best move left the mover this likely to win, and the
+// move played gave up at least MISSED_WIN_DROP points of it
+const WINNING = 70;
+const MISSED_WIN_DROP = 15;
+
+// An only move: the best move is this many points better than any other
+const ONLY_MOVE_MARGIN = 20;
+
+// A walkthrough is only useful if it skips most of the game
+const MAX_MOMENTS = 8;
+
+// Missed wins first, then swings, then only moves, when a move is several
+const KIND_ORDER: CriticalMoment["kind"][] = ["missedWin", "swing", "onlyMove"];
+
+/**
+ * The critical moments of an analysed game, in move order.
+ *
+ * @param moves       - The game's moves
+ * @param evaluations - Their evaluations, by both sides
+ */
+export function findCriticalMoments(
+  moves: SavedMove[],
+  evaluations: (MoveEvaluation | null)[]
+): CriticalMoment[] {
+  const moments: (CriticalMoment & { weight: number })[] = [];
+
+  evaluations.forEach((evaluation, index) => {
+    const move = moves[index];
+    const [best, second] = evaluation?.candidates ?? [];
+    if (!evaluation || !move || !best) return;
+
+    // Winning chances from the mover's side
+    const perspective = move.color === "w" ? 1 : -1;
+    const win = (centipawns: number) => winPercent(perspective * centipawns);
+    const winAfter = win(evaluation.centipawns);
+    const winBest = win(best.centipawns);
+    const previous = index === 0 ? 0 : evaluations[index - 1]?.centipawns;
+
+    const found: (CriticalMoment & { weight: number })[] = [];
+    const moment = (kind: CriticalMoment["kind"], weight: number) =>
+      found.push({ index, kind, bestMove: best.move, bestLine: best.line, weight });
+
+    if (winBest >= WINNING && winBest - winAfter >= MISSED_WIN_DROP) {
+      moment("missedWin", winBest - winAfter);
+    }
+    if (previous !== undefined && win(previous) - winAfter >= SWING) {
+      moment("swing", win(previous) - winAfter);
+    }
+    if (second && winBest - win(second.centipawns) >= ONLY_MOVE_MARGIN) {
+      moment("onlyMove", winBest - win(second.centipawns));
+    }
+
+    // One moment per move, of the most telling kind
+    found.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+    if (found.length > 0) moments.push(found[0]);
+  });
+
+  return moments
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_MOMENTS)
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, kind, bestMove, bestLine }) => ({ index, kind, bestMove, bestLine }));
+}
+
+/** A sentence on what happened, e.g. "White missed a win". */
+export function describeMoment(moment: CriticalMoment, moves: SavedMove[]): string {
+  const move = moves[moment.index];
+  const side = move.color === "w" ? "White" : "Black";
+  switch (moment.kind) {
+    case "missedWin":
+      return `${side} missed a win with ${move.san}`;
+    case "swing":
+      return `${move.san} turned the game`;
+    case "onlyMove":
+      return move.san === moment.bestMove
+        ? `${side} found the only move, ${move.san}`
+        : `Only ${moment.bestMove} held for ${side}; ${move.san} didn't`;
+  }
+}
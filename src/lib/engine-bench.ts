@@ -0,0 +1,217 @@
+/**
+ * Engine benchmarks: a speed benchmark (nodes, nodes per second and time
+ * to each depth for the AI's search and for position evaluation) and a
+ * tactical suite that counts how many test positions' best moves the
+ * engine finds. Run them with `npm run bench` to compare engine changes.
+ */
+
+import { Chess } from "chess.js";
+import { MAX_RATING, resetEngine, searchWithLimits } from "./chess-engine";
+import { evaluatePosition } from "./analysis-engine";
+
+// ---------------------------------------------------------------------------
+// Speed benchmark
+// ---------------------------------------------------------------------------
+
+// Opening, middlegame and endgame positions with plenty to calculate
+export const BENCH_POSITIONS: string[] = [
+  "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+  "r1bqkb1r/pppp1ppp/2n2n2/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4",
+  "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+  "r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10",
+  "2rq1rk1/pp1bppbp/3p1np1/8/3NP3/1BN1BP2/PPPQ2PP/2KR3R b - - 0 11",
+  "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1",
+  "8/8/4k3/3p4/3P4/4K3/8/8 w - - 0 1",
+];
+
+export interface DepthTiming {
+  depth: number;
+  nodes: number; // searched so far
+  time: number; // ms since the search started
+}
+
+export interface BenchResult {
+  fen: string;
+  bestMove: string | null;
+  depths: DepthTiming[];
+  nodes: number;
+  time: number; // ms for the whole search
+  evalTime: number; // ms for evaluatePosition, as used by game analysis
+}
+
+export interface BenchSummary {
+  results: BenchResult[];
+  nodes: number;
+  time: number;
+  nps: number;
+}
+
+/**
+ * Search each position to `depth` at full strength with an empty table,
+ * timing every iteration, then time the analysis evaluation of it.
+ */
+export async function runBenchmark(
+  depth: number,
+  positions: string[] = BENCH_POSITIONS,
+  onResult?: (result: BenchResult) => void
+): Promise<BenchSummary> {
+  const results: BenchResult[] = [];
+
+  for (const fen of positions) {
+    resetEngine();
+    const depths: DepthTiming[] = [];
+    let nodes = 0;
+    const start = Date.now();
+    const bestMove = await searchWithLimits(fen, MAX_RATING, { depth }, {
+      onProgress: (progress) => {
+        nodes += progress.nodes;
+        depths.push({ depth: progress.depth, nodes, time: Date.now() - start });
+      },
+    });
+    const time = Date.now() - start;
+
+    const evalStart = Date.now();
+    evaluatePosition(fen);
+    const result: BenchResult = {
+      fen,
+      bestMove,
+      depths,
+      nodes,
+      time,
+      evalTime: Date.now() - evalStart,
+    };
+    results.push(result);
+    onResult?.(result);
+  }
+
+  const nodes = results.reduce((sum, result) => sum + result.nodes, 0);
+  const time = results.reduce((sum, result) => sum + result.time, 0);
+  return { results, nodes, time, nps: getNps(nodes, time) };
+}
+
+/** Nodes per second. */
+export function getNps(nodes: number, time: number): number {
+  return Math.round((nodes * 1000) / Math.max(1, time));
+}
+
+// ---------------------------------------------------------------------------
+// Tactical suite
+// ---------------------------------------------------------------------------
+
+/** A test position in EPD (Extended Position Description) form. */
+export interface EpdPosition {
+  id: string;
+  fen: string;
+  bestMoves: string[]; // SAN; any of them solves the position
+  avoidMoves: string[]; // SAN; none of them may be played
+}
+
+/**
+ * Parse one EPD line, e.g. `<fen fields> bm Qg6; id "WAC.001";`. Throws
+ * when the position or its moves aren't legal.
+ */
+export function parseEpd(line: string): EpdPosition {
+  const fields = line.trim().split(/\s+/);
+  if (fields.length < 4) throw new Error(`Not an EPD line: ${line}`);
+  // EPD leaves out the move counters
+  const fen = `${fields.slice(0, 4).join(" ")} 0 1`;
+  const chess = new Chess(fen);
+
+  const operations: Record<string, string> = {};
+  const rest = fields.slice(4).join(" ");
+  for (const operation of rest.split(";")) {
+    const [opcode, ...operands] = operation.trim().split(/\s+/);
+    if (opcode) operations[opcode] = operands.join(" ").replace(/^"|"$/g, "");
+  }
+
+  // Match the engine's SAN however the file spelled the moves
+  const toSan = (moves: string | undefined) =>
+    (moves ?? "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((move) => {
+        const san = chess.move(move).san;
+        chess.undo();
+        return san;
+      });
+
+  const position: EpdPosition = {
+    id: operations.id ?? fields.slice(0, 4).join(" "),
+    fen,
+    bestMoves: toSan(operations.bm),
+    avoidMoves: toSan(operations.am),
+  };
+  if (position.bestMoves.length === 0 && position.avoidMoves.length === 0) {
+    throw new Error(`EPD position ${position.id} has no bm or am`);
+  }
+  return position;
+}
+
+// A selection from "Win At Chess" (Reinfeld), the classic tactical test set
+export const WAC_POSITIONS: string[] = [
+  '2rr3k/pp3pp1/1nnqbN1p/3pN3/2pP4/2P3Q1/PPB4P/R4RK1 w - - bm Qg6; id "WAC.001";',
+  '8/7p/5k2/5p2/p1p2P2/Pr1pPK2/1P1R3P/8 b - - bm Rxb2; id "WAC.002";',
+  '5rk1/1ppb3p/p1pb4/6q1/3P1p1r/2P1R2P/PP1BQ1P1/5RKN w - - bm Rg3; id "WAC.003";',
+  'r1bq2rk/pp3pbp/2p1p1pQ/7P/3P4/2PB1N2/PP3PPR/2KR4 w - - bm Qxh7+; id "WAC.004";',
+  '5k2/6pp/p1qN4/1p1p4/3P4/2PKP2Q/PP3r2/3R4 b - - bm Qc4+; id "WAC.005";',
+  '7k/p7/1R5K/6r1/6p1/6P1/8/8 w - - bm Rb7; id "WAC.006";',
+  'rnbqkb1r/pppp1ppp/8/4P3/6n1/7P/PPPNPPP1/R1BQKBNR b KQkq - bm Ne3; id "WAC.007";',
+  'r4q1k/p2bR1rp/2p2Q1N/5p2/5p2/2P5/PP3PPP/R5K1 w - - bm Rf7; id "WAC.008";',
+  '3q1rk1/p4pp1/2pb3p/3p4/6Pr/1PNQ4/P1PB1PP1/4RRK1 b - - bm Bh2+; id "WAC.009";',
+  '2br2k1/2q3rn/p2NppQ1/2p1P3/Pp5R/4P3/1P3PPP/3R2K1 w - - bm Rh7; id "WAC.010";',
+];
+
+export interface TacticResult {
+  id: string;
+  fen: string;
+  expected: string[];
+  played: string | null;
+  solved: boolean;
+  time: number; // ms
+}
+
+export interface TacticSummary {
+  results: TacticResult[];
+  solved: number;
+  total: number;
+}
+
+/**
+ * Give the engine `moveTime` ms at full strength on each position and
+ * count the positions where it plays a best move (and no avoided move).
+ */
+export async function runTacticalSuite(
+  moveTime: number,
+  epd: string[] = WAC_POSITIONS,
+  onResult?: (result: TacticResult) => void
+): Promise<TacticSummary> {
+  const results: TacticResult[] = [];
+
+  for (const line of epd) {
+    const position = parseEpd(line);
+    resetEngine();
+    const start = Date.now();
+    const played = await searchWithLimits(position.fen, MAX_RATING, { moveTime });
+    const solved =
+      played !== null &&
+      (position.bestMoves.length === 0 || position.bestMoves.includes(played)) &&
+      !position.avoidMoves.includes(played);
+
+    const result: TacticResult = {
+      id: position.id,
+      fen: position.fen,
+      expected: position.bestMoves,
+      played,
+      solved,
+      time: Date.now() - start,
+    };
+    results.push(result);
+    onResult?.(result);
+  }
+
+  return {
+    results,
+    solved: results.filter((result) => result.solved).length,
+    total: results.length,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Message protocol between the UI and the engine worker.
+ *
+ * Every request that produces a result carries an `id`; the worker echoes
+ * it on the matching progress/result/error/stopped messages.
+ */
+
+import type { ClockState } from "./chess-engine";
+import type { PersonalityId } from "./personalities";
+import type { GameAnalysis, SavedMove } from "./game-storage";
+import type { CacheStats } from "./position-cache";
+
+// --- UI -> worker ---
+
+export interface SearchRequest {
+  type: "search";
+  id: number;
+  fen: string;
+  rating: number; // the AI's strength, MIN_RATING to MAX_RATING
+  clock?: ClockState;
+  personality?: PersonalityId;
+}
+
+export interface AnalyzeGameRequest {
+  type: "analyzeGame";
+  id: number;
+  moves: SavedMove[];
+  playerColor: "white" | "black";
+}
+
+export interface EvaluateRequest {
+  type: "evaluate";
+  id: number;
+  fen: string;
+}
+
+export interface StopRequest {
+  type: "stop";
+  id?: number; // omit to stop everything
+}
+
+export interface ResetRequest {
+  type: "reset";
+}
+
+// The worker owns the position cache, so its stats and clearing go through it
+export interface CacheStatsRequest {
+  type: "cacheStats";
+  id: number;
+}
+
+export interface ClearCacheRequest {
+  type: "clearCache";
+  id: number;
+}
+
+export type EngineRequest =
+  | SearchRequest
+  | AnalyzeGameRequest
+  | EvaluateRequest
+  | StopRequest
+  | ResetRequest
+  | CacheStatsRequest
+  | ClearCacheRequest;
+
+// --- worker -> UI ---
+
+export interface BestMoveResponse {
+  type: "bestMove";
+  id: number;
+  san: string | null; // null when there are no legal moves
+}
+
+export interface ProgressResponse {
+  type: "progress";
+  id: number;
+  current: number;
+  total: number;
+}
+
+export interface AnalysisResponse {
+  type: "analysis";
+  id: number;
+  analysis: GameAnalysis;
+}
+
+export interface EvaluationResponse {
+  type: "evaluation";
+  id: number;
+  score: number; // centipawns from white's perspective, or a mate score
+}
+
+/** Answers both cacheStats and clearCache (with the emptied cache's stats). */
+export interface CacheStatsResponse {
+  type: "cacheStats";
+  id: number;
+  stats: CacheStats;
+}
+
+export interface StoppedResponse {
+  type: "stopped";
+  id: number;
+}
+
+export interface ErrorResponse {
+  type: "error";
+  id: number;
+  message: string;
+}
+
+export type EngineResponse =
+  | BestMoveResponse
+  | ProgressResponse
+  | AnalysisResponse
+  | EvaluationResponse
+  | CacheStatsResponse
+  | StoppedResponse
+  | ErrorResponse;
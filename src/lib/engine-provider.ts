@@ -0,0 +1,84 @@
+/**
+ * Engine providers: where position analysis comes from.
+ *
+ * Game analysis asks a provider for the best lines in a position. The
+ * built-in search is always available (see analysis-engine.ts); a stronger
+ * UCI engine configured on the server (see uci-process.ts) can be reached
+ * through /api/engine, falling back to the built-in one when the server
+ * has none.
+ */
+
+import type { SearchLine } from "./search";
+
+export interface PositionAnalysis {
+  lines: SearchLine[]; // best first; scores from white's perspective
+  depth: number;
+  engine?: string; // provider that answered, when it wasn't the one asked
+}
+
+export interface EngineProvider {
+  name: string;
+  /**
+   * Search a position for its `multiPv` best moves. Resolves to null when
+   * the side to move has no legal moves.
+   */
+  analyse(fen: string, multiPv: number): Promise<PositionAnalysis | null>;
+}
+
+/** What GET /api/engine reports. */
+export interface EngineStatus {
+  available: boolean;
+  name?: string;
+}
+
+export const ENGINE_ENDPOINT = "/api/engine";
+
+/**
+ * Analyse through the server's UCI engine, or with `fallback` when the
+ * server has no engine configured or stops answering. Analyses from the
+ * fallback are marked with its name.
+ */
+export function createServerEngineProvider(
+  fallback: EngineProvider,
+  endpoint: string = ENGINE_ENDPOINT
+): EngineProvider {
+  let status: Promise<EngineStatus> | null = null;
+
+  async function analyseWithFallback(fen: string, multiPv: number) {
+    const analysis = await fallback.analyse(fen, multiPv);
+    return analysis && { ...analysis, engine: analysis.engine ?? fallback.name };
+  }
+
+  function checkStatus(): Promise<EngineStatus> {
+    status ??= fetch(endpoint)
+      .then((res) => (res.ok ? (res.json() as Promise<EngineStatus>) : { available: false }))
+      .catch(() => ({ available: false }));
+    return status;
+  }
+
+  return {
+    name: "server",
+
+    async analyse(fen, multiPv) {
+      if (!(await checkStatus()).available) {
+        return analyseWithFallback(fen, multiPv);
+      }
+
+      try {
+        const res = await fetch(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fen, multiPv }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `Engine request failed (${res.status})`);
+        return data.analysis as PositionAnalysis | null;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Engine request failed";
+        console.warn("[engine] Server engine unavailable, using built-in:", message);
+        status = Promise.resolve({ available: false });
+        return analyseWithFallback(fen, multiPv);
+      }
+    },
+  };
+}
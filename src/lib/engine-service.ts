@@ -0,0 +1,215 @@
+/**
+ * Client for the engine worker.
+ *
+ * Wraps the message protocol in promises. The worker is started lazily on
+ * the first request and torn down with terminate(); when Web Workers aren't
+ * available the same handler runs on the main thread instead.
+ */
+
+import type { ClockState } from "./chess-engine";
+import type { PersonalityId } from "./personalities";
+import type { GameAnalysis, SavedMove } from "./game-storage";
+import type { CacheStats } from "./position-cache";
+import type { EngineRequest, EngineResponse } from "./engine-protocol";
+import { createEngineWorker } from "./engine-worker";
+
+/** Rejection reason for requests cancelled with stop() or terminate(). */
+export class EngineStoppedError extends Error {
+  constructor() {
+    super("Engine stopped");
+    this.name = "EngineStoppedError";
+  }
+}
+
+export interface EngineService {
+  /**
+   * Ask the engine for its move (SAN) at a rating, in a personality's style,
+   * or null if there are no legal moves.
+   */
+  getMove(
+    fen: string,
+    rating: number,
+    clock?: ClockState,
+    personality?: PersonalityId
+  ): Promise<string | null>;
+  /** Analyse a completed game, reporting progress move by move. */
+  analyzeGame(
+    moves: SavedMove[],
+    playerColor: "white" | "black",
+    onProgress?: (current: number, total: number) => void
+  ): Promise<GameAnalysis>;
+  /**
+   * Score a position the way game analysis does: centipawns from white's
+   * perspective, or a mate score (decode with getMateIn()).
+   */
+  evaluate(fen: string): Promise<number>;
+  /** How much the engine's position cache holds and how often it's hit. */
+  cacheStats(): Promise<CacheStats>;
+  /** Empty the position cache, in memory and on disk. */
+  clearCache(): Promise<CacheStats>;
+  /** Clear what the engine learned during the current game. */
+  reset(): void;
+  /** Cancel every pending request. */
+  stop(): void;
+  /** Cancel everything and shut the worker down (e.g. on unmount). */
+  terminate(): void;
+}
+
+interface Pending {
+  kind: "search" | "analyzeGame" | "evaluate" | "cache";
+  resolve: (value: never) => void;
+  reject: (reason: Error) => void;
+  onProgress?: (current: number, total: number) => void;
+}
+
+interface EnginePort {
+  postMessage(request: EngineRequest): void;
+  terminate(): void;
+}
+
+export function createEngineService(): EngineService {
+  let port: EnginePort | null = null;
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+
+  function handleResponse(response: EngineResponse) {
+    const request = pending.get(response.id);
+    if (!request) return; // already stopped
+
+    switch (response.type) {
+      case "progress":
+        request.onProgress?.(response.current, response.total);
+        return;
+      case "bestMove":
+        pending.delete(response.id);
+        (request.resolve as (san: string | null) => void)(response.san);
+        return;
+      case "analysis":
+        pending.delete(response.id);
+        (request.resolve as (analysis: GameAnalysis) => void)(response.analysis);
+        return;
+      case "evaluation":
+        pending.delete(response.id);
+        (request.resolve as (score: number) => void)(response.score);
+        return;
+      case "cacheStats":
+        pending.delete(response.id);
+        (request.resolve as (stats: CacheStats) => void)(response.stats);
+        return;
+      case "stopped":
+        pending.delete(response.id);
+        request.reject(new EngineStoppedError());
+        return;
+      case "error":
+        pending.delete(response.id);
+        request.reject(new Error(response.message));
+        return;
+    }
+  }
+
+  function rejectAll(reason: Error) {
+    pending.forEach((request) => request.reject(reason));
+    pending.clear();
+  }
+
+  function connect(): EnginePort {
+    if (port) return port;
+
+    if (typeof Worker === "undefined") {
+      const handle = createEngineWorker(handleResponse);
+      port = {
+        postMessage: (request) => void handle(request),
+        terminate: () => {},
+      };
+      return port;
+    }
+
+    const worker = new Worker(
+      new URL("../workers/engine.worker.ts", import.meta.url)
+    );
+    worker.onmessage = (event: MessageEvent<EngineResponse>) =>
+      handleResponse(event.data);
+    worker.onerror = (event) => {
+      console.error("[engine] Worker error:", event.message);
+      worker.terminate();
+      port = null;
+      rejectAll(new Error(event.message || "Engine worker crashed"));
+    };
+    port = {
+      postMessage: (request) => worker.postMessage(request),
+      terminate: () => worker.terminate(),
+    };
+    return port;
+  }
+
+  function send<T>(
+    request: EngineRequest & { id: number },
+    kind: Pending["kind"],
+    onProgress?: Pending["onProgress"]
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      pending.set(request.id, {
+        kind,
+        resolve: resolve as (value: never) => void,
+        reject,
+        onProgress,
+      });
+      connect().postMessage(request);
+    });
+  }
+
+  function terminate() {
+    port?.terminate();
+    port = null;
+    rejectAll(new EngineStoppedError());
+  }
+
+  return {
+    getMove(fen, rating, clock, personality) {
+      return send<string | null>(
+        { type: "search", id: nextId++, fen, rating, clock, personality },
+        "search"
+      );
+    },
+
+    analyzeGame(moves, playerColor, onProgress) {
+      return send<GameAnalysis>(
+        { type: "analyzeGame", id: nextId++, moves, playerColor },
+        "analyzeGame",
+        onProgress
+      );
+    },
+
+    evaluate(fen) {
+      return send<number>({ type: "evaluate", id: nextId++, fen }, "evaluate");
+    },
+
+    cacheStats() {
+      return send<CacheStats>({ type: "cacheStats", id: nextId++ }, "cache");
+    },
+
+    clearCache() {
+      return send<CacheStats>({ type: "clearCache", id: nextId++ }, "cache");
+    },
+
+    reset() {
+      connect().postMessage({ type: "reset" });
+    },
+
+    stop() {
+      // A search can't be interrupted mid-iteration from outside the
+      // worker, so tear the worker down rather than queue behind it.
+      const searching = Array.from(pending.values()).some(
+        (request) => request.kind === "search"
+      );
+      if (searching) {
+        terminate();
+        return;
+      }
+      port?.postMessage({ type: "stop" });
+      rejectAll(new EngineStoppedError());
+    },
+
+    terminate,
+  };
+}
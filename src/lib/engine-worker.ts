@@ -0,0 +1,119 @@
+/**
+ * Request handler that runs inside the engine worker.
+ *
+ * Kept separate from the worker entry point so it can also run on the main
+ * thread when Web Workers aren't available (server rendering, tests).
+ */
+
+import { getAIMove, resetEngine } from "./chess-engine";
+import { analyzeGame, scorePosition } from "./analysis-engine";
+import { getPositionCache } from "./position-cache";
+import type { EngineRequest, EngineResponse } from "./engine-protocol";
+import type { EngineProvider } from "./engine-provider";
+
+/**
+ * @param post     - Sends a response back to the client
+ * @param provider - Engine for game analysis (the built-in one by default)
+ */
+export function createEngineWorker(
+  post: (response: EngineResponse) => void,
+  provider?: EngineProvider
+): (request: EngineRequest) => Promise<void> {
+  // Running jobs, so "stop" can cancel them. Searches run synchronously
+  // and can't be interrupted; a stopped search just has its result dropped.
+  const running = new Map<number, AbortController>();
+
+  function finish(id: number, response: EngineResponse) {
+    const controller = running.get(id);
+    running.delete(id);
+    post(controller?.signal.aborted ? { type: "stopped", id } : response);
+  }
+
+  function fail(id: number, err: unknown) {
+    const message = err instanceof Error ? err.message : "Engine error";
+    finish(id, { type: "error", id, message });
+  }
+
+  return async function handle(request) {
+    switch (request.type) {
+      case "search": {
+        const { id, fen, rating, clock, personality } = request;
+        running.set(id, new AbortController());
+        try {
+          const move = await getAIMove(fen, rating, clock, personality);
+          finish(id, { type: "bestMove", id, san: move ? move.san : null });
+        } catch (err) {
+          fail(id, err);
+        }
+        break;
+      }
+
+      case "analyzeGame": {
+        const { id, moves, playerColor } = request;
+        const controller = new AbortController();
+        running.set(id, controller);
+        try {
+          const analysis = await analyzeGame(
+            moves,
+            playerColor,
+            (current, total) => {
+              if (!controller.signal.aborted) {
+                post({ type: "progress", id, current, total });
+              }
+            },
+            controller.signal,
+            provider
+          );
+          finish(id, { type: "analysis", id, analysis });
+        } catch (err) {
+          fail(id, err);
+        }
+        break;
+      }
+
+      case "evaluate": {
+        const { id, fen } = request;
+        running.set(id, new AbortController());
+        try {
+          const score = await scorePosition(fen, provider);
+          finish(id, { type: "evaluation", id, score });
+        } catch (err) {
+          fail(id, err);
+        }
+        break;
+      }
+
+      case "cacheStats": {
+        const { id } = request;
+        const cache = getPositionCache();
+        await cache.ready;
+        finish(id, { type: "cacheStats", id, stats: cache.stats() });
+        break;
+      }
+
+      case "clearCache": {
+        const { id } = request;
+        const cache = getPositionCache();
+        try {
+          await cache.clear();
+          finish(id, { type: "cacheStats", id, stats: cache.stats() });
+        } catch (err) {
+          fail(id, err);
+        }
+        break;
+      }
+
+      case "stop": {
+        running.forEach((controller, id) => {
+          if (request.id === undefined || request.id === id) controller.abort();
+        });
+        break;
+      }
+
+      case "reset": {
+        resetEngine();
+        break;
+      }
+    }
+  };
+}
@@ -0,0 +1,447 @@
+/**
+ * Position evaluation shared by the AI opponent and game analysis.
+ *
+ * A tapered evaluation: every term has a middlegame and an endgame value,
+ * blended by how much non-pawn material is left on the board. Terms are
+ * material, piece-square tables, pawn structure (doubled, isolated and
+ * passed pawns), king safety (pawn shield, open files near the king), rooks
+ * on open files, the bishop pair and piece mobility. Each term group is
+ * scaled by a configurable weight so callers can tune the engine's taste
+ * without forking the evaluation; two more terms, pieces bearing down on
+ * the enemy king and trading down when ahead, are off unless weighted in.
+ * Scores are centipawns from white's perspective, except for forced mates
+ * (see MATE_SCORE).
+ */
+
+import { Chess } from "chess.js";
+
+export const PIECE_VALUES: Record<string, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 20000,
+};
+
+// ---------------------------------------------------------------------------
+// Mate scores
+// ---------------------------------------------------------------------------
+
+/**
+ * Score for checkmate on the board. Forced mates found by search score
+ * MATE_SCORE minus the number of plies until mate, so a quicker mate always
+ * outscores a slower one.
+ */
+export const MATE_SCORE = 100000;
+
+// Longest mate distinguishable from an ordinary evaluation
+const MAX_MATE_PLIES = 1000;
+
+export function isMateScore(score: number): boolean {
+  return Math.abs(score) > MATE_SCORE - MAX_MATE_PLIES;
+}
+
+/**
+ * Moves until mate for a mate score: positive when white mates, negative
+ * when black does, 0 when the position is already checkmate. Null for
+ * ordinary scores.
+ */
+export function getMateIn(score: number): number | null {
+  if (!isMateScore(score)) return null;
+  const moves = Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+  return score > 0 || moves === 0 ? moves : -moves;
+}
+
+/** Multipliers for each group of evaluation terms (1 = default strength). */
+export interface EvaluationWeights {
+  pieceValues: Record<string, number>;
+  pieceSquare: number;
+  pawnStructure: number;
+  kingSafety: number;
+  mobility: number;
+  rookOpenFile: number;
+  bishopPair: number;
+  kingAttack: number;
+  simplification: number;
+}
+
+export const DEFAULT_WEIGHTS: EvaluationWeights = {
+  pieceValues: PIECE_VALUES,
+  pieceSquare: 1,
+  pawnStructure: 1,
+  kingSafety: 1,
+  mobility: 1,
+  rookOpenFile: 1,
+  bishopPair: 1,
+  // Matters of style rather than strength; personalities turn these on
+  kingAttack: 0,
+  simplification: 0,
+};
+
+// ---------------------------------------------------------------------------
+// Piece-square tables (from white's point of view, rank 8 first)
+// ---------------------------------------------------------------------------
+
+const PAWN_TABLE = [
+  0, 0, 0, 0, 0, 0, 0, 0,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  10, 10, 20, 30, 30, 20, 10, 10,
+  5, 5, 10, 25, 25, 10, 5, 5,
+  0, 0, 0, 20, 20, 0, 0, 0,
+  5, -5, -10, 0, 0, -10, -5, 5,
+  5, 10, 10, -20, -20, 10, 10, 5,
+  0, 0, 0, 0, 0, 0, 0, 0,
+];
+
+const KNIGHT_TABLE = [
+  -50, -40, -30, -30, -30, -30, -40, -50,
+  -40, -20, 0, 0, 0, 0, -20, -40,
+  -30, 0, 10, 15, 15, 10, 0, -30,
+  -30, 5, 15, 20, 20, 15, 5, -30,
+  -30, 0, 15, 20, 20, 15, 0, -30,
+  -30, 5, 10, 15, 15, 10, 5, -30,
+  -40, -20, 0, 5, 5, 0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50,
+];
+
+const BISHOP_TABLE = [
+  -20, -10, -10, -10, -10, -10, -10, -20,
+  -10, 0, 0, 0, 0, 0, 0, -10,
+  -10, 0, 5, 10, 10, 5, 0, -10,
+  -10, 5, 5, 10, 10, 5, 5, -10,
+  -10, 0, 10, 10, 10, 10, 0, -10,
+  -10, 10, 10, 10, 10, 10, 10, -10,
+  -10, 5, 0, 0, 0, 0, 5, -10,
+  -20, -10, -10, -10, -10, -10, -10, -20,
+];
+
+const ROOK_TABLE = [
+  0, 0, 0, 0, 0, 0, 0, 0,
+  5, 10, 10, 10, 10, 10, 10, 5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  -5, 0, 0, 0, 0, 0, 0, -5,
+  0, 0, 0, 5, 5, 0, 0, 0,
+];
+
+const QUEEN_TABLE = [
+  -20, -10, -10, -5, -5, -10, -10, -20,
+  -10, 0, 0, 0, 0, 0, 0, -10,
+  -10, 0, 5, 5, 5, 5, 0, -10,
+  -5, 0, 5, 5, 5, 5, 0, -5,
+  0, 0, 5, 5, 5, 5, 0, -5,
+  -10, 5, 5, 5, 5, 5, 0, -10,
+  -10, 0, 5, 0, 0, 0, 0, -10,
+  -20, -10, -10, -5, -5, -10, -10, -20,
+];
+
+const KING_MIDDLE_TABLE = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+  20, 20, 0, 0, 0, 0, 20, 20,
+  20, 30, 10, 0, 0, 10, 30, 20,
+];
+
+// In the endgame the king should head for the centre
+const KING_END_TABLE = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10, 0, 0, -10, -20, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -30, 0, 0, 0, 0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50,
+];
+
+const MIDDLEGAME_TABLES: Record<string, number[]> = {
+  p: PAWN_TABLE,
+  n: KNIGHT_TABLE,
+  b: BISHOP_TABLE,
+  r: ROOK_TABLE,
+  q: QUEEN_TABLE,
+  k: KING_MIDDLE_TABLE,
+};
+
+const ENDGAME_TABLES: Record<string, number[]> = {
+  ...MIDDLEGAME_TABLES,
+  k: KING_END_TABLE,
+};
+
+// ---------------------------------------------------------------------------
+// Term values ([middlegame, endgame] pairs)
+// ---------------------------------------------------------------------------
+
+// Game phase: knights and bishops count 1, rooks 2, queens 4 (24 at the start)
+const PHASE_WEIGHTS: Record<string, number> = { n: 1, b: 1, r: 2, q: 4 };
+const MAX_PHASE = 24;
+
+const DOUBLED_PAWN = [-10, -20];
+const ISOLATED_PAWN = [-15, -20];
+// Indexed by rank from the pawn owner's side (rank 1 = index 0)
+const PASSED_PAWN_MG = [0, 5, 10, 15, 25, 40, 60, 0];
+const PASSED_PAWN_EG = [0, 10, 20, 35, 60, 100, 150, 0];
+
+const SHIELD_PAWN_NEAR = 10; // own pawn directly in front of the king
+const SHIELD_PAWN_FAR = 5; // own pawn two squares in front
+const KING_SEMI_OPEN_FILE = -15; // no own pawn on a file next to the king
+const KING_OPEN_FILE = -10; // ...and no enemy pawn either
+
+const ROOK_OPEN_FILE = [25, 15];
+const ROOK_SEMI_OPEN_FILE = [12, 8];
+const BISHOP_PAIR = [30, 50];
+
+// Middlegame bonus per piece within two squares of the enemy king
+const KING_ATTACKER: Record<string, number> = { n: 12, b: 8, r: 10, q: 20 };
+// Per point of phase traded off, for the side ahead by at least a pawn
+const SIMPLIFICATION = 4;
+
+// Per reachable square; the average piece scores roughly zero
+const MOBILITY: Record<string, { mg: number; eg: number; base: number }> = {
+  n: { mg: 4, eg: 4, base: 4 },
+  b: { mg: 5, eg: 5, base: 6 },
+  r: { mg: 2, eg: 4, base: 7 },
+  q: { mg: 1, eg: 2, base: 13 },
+};
+
+const KNIGHT_JUMPS = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1],
+];
+const DIAGONALS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ORTHOGONALS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+type Board = ReturnType<Chess["board"]>;
+type Color = "w" | "b";
+
+function pieceSquareIndex(color: Color, row: number, col: number): number {
+  return color === "w" ? row * 8 + col : (7 - row) * 8 + col;
+}
+
+// Squares a piece attacks or can move to (not counting own-piece squares)
+function countMobility(
+  board: Board,
+  type: string,
+  color: Color,
+  row: number,
+  col: number
+): number {
+  const onBoard = (r: number, c: number) => r >= 0 && r < 8 && c >= 0 && c < 8;
+  let count = 0;
+
+  if (type === "n") {
+    for (const [dr, dc] of KNIGHT_JUMPS) {
+      const r = row + dr;
+      const c = col + dc;
+      if (onBoard(r, c) && board[r][c]?.color !== color) count++;
+    }
+    return count;
+  }
+
+  const directions =
+    type === "b" ? DIAGONALS : type === "r" ? ORTHOGONALS : [...DIAGONALS, ...ORTHOGONALS];
+  for (const [dr, dc] of directions) {
+    let r = row + dr;
+    let c = col + dc;
+    while (onBoard(r, c)) {
+      const occupant = board[r][c];
+      if (occupant) {
+        if (occupant.color !== color) count++;
+        break;
+      }
+      count++;
+      r += dr;
+      c += dc;
+    }
+  }
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * How far the game has progressed towards an endgame, from 24 (all pieces
+ * on the board) down to 0 (kings and pawns only).
+ */
+export function getGamePhase(chess: Chess): number {
+  let phase = 0;
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (piece) phase += PHASE_WEIGHTS[piece.type] || 0;
+    }
+  }
+  return Math.min(phase, MAX_PHASE);
+}
+
+/**
+ * Evaluate a position statically (no search).
+ * Returns centipawns from white's perspective; ±MATE_SCORE for checkmate.
+ */
+export function evaluateBoard(
+  chess: Chess,
+  weights: EvaluationWeights = DEFAULT_WEIGHTS
+): number {
+  if (chess.isCheckmate()) {
+    return chess.turn() === "w" ? -MATE_SCORE : MATE_SCORE;
+  }
+  if (chess.isDraw() || chess.isStalemate()) return 0;
+
+  const board = chess.board();
+  let mg = 0;
+  let eg = 0;
+  let phase = 0;
+
+  // Pawn rows per file for each side, for the pawn-structure terms
+  const pawns: Record<Color, number[][]> = {
+    w: Array.from({ length: 8 }, () => []),
+    b: Array.from({ length: 8 }, () => []),
+  };
+  const bishops: Record<Color, number> = { w: 0, b: 0 };
+  const kings: Partial<Record<Color, [number, number]>> = {};
+  const rooks: [Color, number][] = [];
+  const attackers: [Color, string, number, number][] = [];
+  const material: Record<Color, number> = { w: 0, b: 0 };
+
+  // --- Material, piece-square tables and mobility ---
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+
+      const sign = piece.color === "w" ? 1 : -1;
+      const value = weights.pieceValues[piece.type] || 0;
+      const index = pieceSquareIndex(piece.color, row, col);
+      mg += sign * (value + MIDDLEGAME_TABLES[piece.type][index] * weights.pieceSquare);
+      eg += sign * (value + ENDGAME_TABLES[piece.type][index] * weights.pieceSquare);
+      phase += PHASE_WEIGHTS[piece.type] || 0;
+
+      const mobility = MOBILITY[piece.type];
+      if (mobility) {
+        const squares = countMobility(board, piece.type, piece.color, row, col) - mobility.base;
+        mg += sign * squares * mobility.mg * weights.mobility;
+        eg += sign * squares * mobility.eg * weights.mobility;
+      }
+
+      if (piece.type === "p") pawns[piece.color][col].push(row);
+      else if (piece.type === "b") bishops[piece.color]++;
+      else if (piece.type === "k") kings[piece.color] = [row, col];
+      else if (piece.type === "r") rooks.push([piece.color, col]);
+      if (piece.type !== "k") material[piece.color] += value;
+      if (KING_ATTACKER[piece.type]) attackers.push([piece.color, piece.type, row, col]);
+    }
+  }
+
+  for (const color of ["w", "b"] as const) {
+    const sign = color === "w" ? 1 : -1;
+    const enemy: Color = color === "w" ? "b" : "w";
+    const own = pawns[color];
+    const theirs = pawns[enemy];
+    // Rows get smaller as white pawns advance, larger as black pawns do
+    const ahead = (a: number, b: number) => (color === "w" ? a < b : a > b);
+
+    // --- Pawn structure ---
+    for (let file = 0; file < 8; file++) {
+      const rows = own[file];
+      if (rows.length === 0) continue;
+
+      if (rows.length > 1) {
+        mg += sign * DOUBLED_PAWN[0] * (rows.length - 1) * weights.pawnStructure;
+        eg += sign * DOUBLED_PAWN[1] * (rows.length - 1) * weights.pawnStructure;
+      }
+
+      const isolated =
+        (file === 0 || own[file - 1].length === 0) &&
+        (file === 7 || own[file + 1].length === 0);
+      if (isolated) {
+        mg += sign * ISOLATED_PAWN[0] * rows.length * weights.pawnStructure;
+        eg += sign * ISOLATED_PAWN[1] * rows.length * weights.pawnStructure;
+      }
+
+      for (const row of rows) {
+        let passed = true;
+        for (let f = Math.max(0, file - 1); f <= Math.min(7, file + 1) && passed; f++) {
+          if (theirs[f].some((enemyRow) => ahead(enemyRow, row))) passed = false;
+        }
+        if (passed) {
+          const rank = color === "w" ? 7 - row : row;
+          mg += sign * PASSED_PAWN_MG[rank] * weights.pawnStructure;
+          eg += sign * PASSED_PAWN_EG[rank] * weights.pawnStructure;
+        }
+      }
+    }
+
+    // --- King safety (a middlegame concern only) ---
+    const king = kings[color];
+    if (king) {
+      const [kingRow, kingCol] = king;
+      const forward = color === "w" ? -1 : 1;
+      let safety = 0;
+      for (let file = Math.max(0, kingCol - 1); file <= Math.min(7, kingCol + 1); file++) {
+        if (own[file].includes(kingRow + forward)) safety += SHIELD_PAWN_NEAR;
+        else if (own[file].includes(kingRow + 2 * forward)) safety += SHIELD_PAWN_FAR;
+
+        if (own[file].length === 0) {
+          safety += KING_SEMI_OPEN_FILE;
+          if (theirs[file].length === 0) safety += KING_OPEN_FILE;
+        }
+      }
+      mg += sign * safety * weights.kingSafety;
+    }
+
+    // --- Bishop pair ---
+    if (bishops[color] >= 2) {
+      mg += sign * BISHOP_PAIR[0] * weights.bishopPair;
+      eg += sign * BISHOP_PAIR[1] * weights.bishopPair;
+    }
+  }
+
+  // --- Rooks on open and semi-open files ---
+  for (const [color, file] of rooks) {
+    const sign = color === "w" ? 1 : -1;
+    const enemy: Color = color === "w" ? "b" : "w";
+    if (pawns[color][file].length > 0) continue;
+    const bonus = pawns[enemy][file].length === 0 ? ROOK_OPEN_FILE : ROOK_SEMI_OPEN_FILE;
+    mg += sign * bonus[0] * weights.rookOpenFile;
+    eg += sign * bonus[1] * weights.rookOpenFile;
+  }
+
+  // --- Pieces close to the enemy king ---
+  if (weights.kingAttack) {
+    for (const [color, type, row, col] of attackers) {
+      const king = kings[color === "w" ? "b" : "w"];
+      if (!king) continue;
+      const distance = Math.max(Math.abs(king[0] - row), Math.abs(king[1] - col));
+      if (distance <= 2) {
+        mg += (color === "w" ? 1 : -1) * KING_ATTACKER[type] * weights.kingAttack;
+      }
+    }
+  }
+
+  // --- Taper between middlegame and endgame ---
+  phase = Math.min(phase, MAX_PHASE);
+  let score = (mg * phase + eg * (MAX_PHASE - phase)) / MAX_PHASE;
+
+  // --- Trading down when ahead ---
+  const lead = material.w - material.b;
+  if (weights.simplification && Math.abs(lead) >= (weights.pieceValues.p || 0)) {
+    score += Math.sign(lead) * (MAX_PHASE - phase) * SIMPLIFICATION * weights.simplification;
+  }
+
+  return Math.round(score);
+}
+
+/** Build an evaluation function with some weights overridden. */
+export function createEvaluator(
+  overrides: Partial<EvaluationWeights> = {}
+): (chess: Chess) => number {
+  const weights = { ...DEFAULT_WEIGHTS, ...overrides };
+  return (chess) => evaluateBoard(chess, weights);
+}
@@ -0,0 +1,62 @@
+/**
+ * Game phase detection: whether a position is still in the opening, in the
+ * middlegame or in an endgame, judged from the material left on the board
+ * and how far the pieces have been developed rather than the move number.
+ */
+
+import { Chess } from "chess.js";
+import { getGamePhase } from "./evaluation";
+
+export type GamePhase = "opening" | "middlegame" | "endgame";
+
+export const GAME_PHASES: GamePhase[] = ["opening", "middlegame", "endgame"];
+
+// Material left (knights and bishops 1, rooks 2, queens 4; 24 at the
+// start) at or below which the game is an endgame, with and without queens
+const ENDGAME_MATERIAL = 8;
+const QUEENLESS_ENDGAME_MATERIAL = 10;
+
+// Trading more than a couple of minor pieces ends the opening
+const OPENING_MATERIAL = 20;
+
+// A side has developed once fewer than this many of its pieces are left on
+// its back rank (eight at the start; four once the minor pieces are out
+// and the king has castled)
+const DEVELOPED_BACK_RANK = 5;
+
+// However slowly the pieces come out, the opening is over by this move
+const OPENING_MOVES = 15;
+
+function backRankPieces(chess: Chess, color: "w" | "b"): number {
+  const row = chess.board()[color === "w" ? 7 : 0];
+  return row.filter((piece) => piece?.color === color).length;
+}
+
+/** The phase of the game in the position given by `fen`. */
+export function classifyPhase(fen: string): GamePhase {
+  const chess = new Chess(fen);
+  const material = getGamePhase(chess);
+  const queens = chess
+    .board()
+    .flat()
+    .some((piece) => piece?.type === "q");
+
+  if (material <= ENDGAME_MATERIAL) return "endgame";
+  if (!queens && material <= QUEENLESS_ENDGAME_MATERIAL) return "endgame";
+
+  if (
+    chess.moveNumber() <= OPENING_MOVES &&
+    material >= OPENING_MATERIAL &&
+    backRankPieces(chess, "w") >= DEVELOPED_BACK_RANK &&
+    backRankPieces(chess, "b") >= DEVELOPED_BACK_RANK
+  ) {
+    return "opening";
+  }
+
+  return "middlegame";
+}
+
+/** "Opening", "Middlegame" or "Endgame". */
+export function formatPhase(phase: GamePhase): string {
+  return phase.charAt(0).toUpperCase() + phase.slice(1);
+}
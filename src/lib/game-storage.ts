@@ -3,6 +3,10 @@
  * Handles both in-progress game persistence and completed game history.
  */
 
+import type { GamePhase } from "./game-phase";
+import type { PersonalityId } from "./personalities";
+import type { TacticalTheme } from "./puzzle-bank";
+
 export interface SavedGame {
   id: string;
   pgn: string;
@@ -10,6 +14,7 @@ export interface SavedGame {
   metadata: GameMetadata;
   analysis?: GameAnalysis;
   coachingFeedback?: string;
+  solvedMistakes?: number[]; // move indices found again in "learn from your mistakes"
 }
 
 export interface SavedMove {
@@ -22,27 +27,48 @@ export interface SavedMove {
   color: "w" | "b";
   flags: string;
   captured?: string;
+  clock?: number; // seconds left on the mover's clock after the move
+}
+
+export interface TimeControl {
+  initial: number; // seconds
+  increment: number; // seconds per move
 }
 
 export interface GameMetadata {
   date: string;
   playerColor: "white" | "black";
   opponentType: "human" | "ai";
-  aiDifficulty?: string;
+  aiDifficulty?: string; // games played before the AI had a rating
+  aiRating?: number;
+  aiPersonality?: PersonalityId;
   result: "white" | "black" | "draw";
   resultReason: string; // checkmate, stalemate, resigned, etc.
   totalMoves: number;
   source: "local" | "lichess";
   lichessId?: string;
   opening?: string;
+  timeControl?: TimeControl; // games imported with clock times
 }
 
 export interface MoveEvaluation {
-  centipawns: number;
+  centipawns: number; // forced mates are capped (see mate)
+  mate?: number; // moves to mate after this move: + white mates, - black mates
   bestMove: string;
-  bestLine?: string;
+  bestLine?: string; // engine's principal variation (SAN, space separated)
+  candidates?: CandidateMove[]; // engine's top moves in this position, best first
   classification: MoveClassification;
   cpLoss: number;
+  accuracy?: number; // 0-100 from the win percentage the move gave away
+  phase?: GamePhase; // of the position the move was played in
+  motifs?: TacticalTheme[]; // tactics a mistake missed or allowed
+}
+
+export interface CandidateMove {
+  move: string; // SAN
+  centipawns: number;
+  mate?: number;
+  line: string; // principal variation (SAN, space separated)
 }
 
 export type MoveClassification =
@@ -56,13 +82,28 @@ export type MoveClassification =
   | "forced";
 
 export interface GameAnalysis {
+  // One per move, by both sides (analyses from before both sides were
+  // analysed have null for the opponent's moves)
   evaluations: (MoveEvaluation | null)[];
-  summary: AnalysisSummary;
+  summary: AnalysisSummary; // the player's side
+  sides?: { white: AnalysisSummary; black: AnalysisSummary };
+  criticalMoments?: CriticalMoment[];
   analyzedAt: string;
 }
 
+export interface CriticalMoment {
+  index: number; // of the move in the game
+  // missedWin: a winning move was passed up; swing: the move turned the
+  // game; onlyMove: one move alone kept the position
+  kind: "missedWin" | "swing" | "onlyMove";
+  bestMove: string; // SAN
+  bestLine: string; // principal variation (SAN, space separated)
+}
+
 export interface AnalysisSummary {
   accuracy: number;
+  // Accuracy in each phase the side made moves out of book in
+  phaseAccuracy?: Partial<Record<GamePhase, number>>;
   brilliant: number;
   great: number;
   good: number;
@@ -82,7 +123,9 @@ const USER_PROFILE_KEY = "chess-coach-user-profile";
 export interface InProgressGame {
   pgn: string;
   gameMode: "pvp" | "ai";
-  difficulty: string;
+  difficulty?: string; // games saved before the AI had a rating
+  rating?: number;
+  personality?: PersonalityId;
   playerColor: "white" | "black";
   gameStarted: boolean;
   timestamp: number;
@@ -163,6 +206,20 @@ export function updateGame(id: string, updates: Partial<SavedGame>): void {
   }
 }
 
+/**
+ * The player's own move evaluations from a game's analysis, with the index
+ * of each move. Opponent moves are left out.
+ */
+export function getPlayerEvaluations(
+  game: SavedGame
+): { index: number; evaluation: MoveEvaluation }[] {
+  if (!game.analysis) return [];
+  const color = game.metadata.playerColor === "white" ? "w" : "b";
+  return game.analysis.evaluations.flatMap((evaluation, index) =>
+    evaluation && game.moves[index]?.color === color ? [{ index, evaluation }] : []
+  );
+}
+
 export function deleteGame(id: string): void {
   try {
     const history = getGameHistory().filter((g) => g.id !== id);
@@ -0,0 +1,55 @@
+/**
+ * "Learn from your mistakes": the user replays the positions of an
+ * analysed game where they went wrong and tries to find a good move.
+ * Positions they solve are remembered per game and not asked again.
+ */
+
+import { winPercent } from "./accuracy";
+import {
+  getGameById,
+  getPlayerEvaluations,
+  updateGame,
+  type MoveEvaluation,
+  type SavedGame,
+} from "./game-storage";
+
+// A retry is good enough if it's at most this many win-percentage points
+// worse than the engine's best move (the "good" move threshold)
+export const RETRY_TOLERANCE = 5;
+
+/** Indices of the player's mistakes and blunders not yet solved. */
+export function getRetryPositions(game: SavedGame): number[] {
+  const solved = game.solvedMistakes ?? [];
+  return getPlayerEvaluations(game)
+    .filter(
+      ({ index, evaluation }) =>
+        (evaluation.classification === "mistake" || evaluation.classification === "blunder") &&
+        !solved.includes(index)
+    )
+    .map(({ index }) => index);
+}
+
+/**
+ * Whether a move scoring `centipawns` (white's perspective) is within
+ * tolerance of the best move in the analysed position.
+ */
+export function isGoodRetry(
+  evaluation: MoveEvaluation,
+  color: "w" | "b",
+  centipawns: number
+): boolean {
+  const best = evaluation.candidates?.[0];
+  if (!best) return false;
+  const perspective = color === "w" ? 1 : -1;
+  const drop = winPercent(perspective * best.centipawns) - winPercent(perspective * centipawns);
+  return drop <= RETRY_TOLERANCE;
+}
+
+/** Remember that the user solved the mistake at move `index` of a game. */
+export function recordSolvedMistake(gameId: string, index: number): void {
+  const game = getGameById(gameId);
+  if (!game) return;
+  const solved = game.solvedMistakes ?? [];
+  if (solved.includes(index)) return;
+  updateGame(gameId, { solvedMistakes: [...solved, index] });
+}
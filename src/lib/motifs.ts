@@ -0,0 +1,232 @@
+/**
+ * Tactical motif detection for mistakes and blunders: what tactic the
+ * player missed (found in the engine's best line) or allowed (found in the
+ * opponent's best reply). Motifs are named like the puzzle themes, so the
+ * ones a player keeps falling for can steer their puzzle training.
+ */
+
+import { Chess, type Move, type Square } from "chess.js";
+import { PIECE_VALUES } from "./evaluation";
+import { exchangeValue, materialGivenUp } from "./static-exchange";
+import { TACTICAL_THEMES, type TacticalTheme } from "./puzzle-bank";
+import {
+  getGameHistory,
+  getPlayerEvaluations,
+  getUserProfile,
+  saveUserProfile,
+  type SavedGame,
+} from "./game-storage";
+
+type Color = "w" | "b";
+
+// Moves of the line checked for forks, pins and the like: the mover's
+// first move and their follow-up. Mates are looked for in the whole line.
+const TACTIC_PLIES = 3;
+
+// Longest mate reported as a motif (the puzzle themes stop at mate in 3)
+const MAX_MATE = 3;
+
+const DIRECTIONS: Record<string, [number, number][]> = {
+  b: [[1, 1], [1, -1], [-1, 1], [-1, -1]],
+  r: [[1, 0], [-1, 0], [0, 1], [0, -1]],
+  q: [[1, 1], [1, -1], [-1, 1], [-1, -1], [1, 0], [-1, 0], [0, 1], [0, -1]],
+};
+
+function toSquare(file: number, rank: number): Square {
+  return `${"abcdefgh"[file]}${rank + 1}` as Square;
+}
+
+function pieceSquares(chess: Chess, color: Color): Square[] {
+  const squares: Square[] = [];
+  chess.board().forEach((row) =>
+    row.forEach((piece) => {
+      if (piece?.color === color) squares.push(piece.square);
+    })
+  );
+  return squares;
+}
+
+// A piece is worth attacking if it's the king, worth more than the
+// attacker, or not defended at all
+function isTarget(chess: Chess, square: Square, attackerValue: number): boolean {
+  const piece = chess.get(square);
+  if (!piece) return false;
+  if (piece.type === "k") return true;
+  if (PIECE_VALUES[piece.type] > attackerValue) return true;
+  return chess.attackers(square, piece.color).length === 0;
+}
+
+// Enemy pieces each enemy square is attacked by, keyed by square
+function attacksOn(chess: Chess, attacker: Color): Map<Square, Square[]> {
+  const defender: Color = attacker === "w" ? "b" : "w";
+  const attacks = new Map<Square, Square[]>();
+  for (const square of pieceSquares(chess, defender)) {
+    attacks.set(square, chess.attackers(square, attacker));
+  }
+  return attacks;
+}
+
+/**
+ * Motifs created by `move`, with `chess` in the position after it and
+ * `before` the attacks the mover had before it.
+ */
+function moveMotifs(
+  chess: Chess,
+  move: Move,
+  before: Map<Square, Square[]>
+): TacticalTheme[] {
+  const motifs: TacticalTheme[] = [];
+  const us = move.color;
+  const value = PIECE_VALUES[move.piece];
+  const after = attacksOn(chess, us);
+
+  // Hanging piece: a capture that comes out at least a pawn up, because
+  // the piece taken wasn't defended well enough (a bishop for a knight is
+  // a trade)
+  if (
+    move.captured &&
+    !move.isEnPassant() &&
+    exchangeValue(move.before, move.from, move.to) >= PIECE_VALUES.p
+  ) {
+    motifs.push("hangingPiece");
+  }
+
+  // Fork: the moved piece hits two targets at once
+  const forked = Array.from(after.entries()).filter(
+    ([square, attackers]) => attackers.includes(move.to) && isTarget(chess, square, value)
+  );
+  if (forked.length >= 2) motifs.push("fork");
+
+  // Pin or skewer: the moved piece lines up two enemy pieces
+  for (const [df, dr] of DIRECTIONS[move.piece] ?? []) {
+    const lined: Square[] = [];
+    let file = move.to.charCodeAt(0) - 97 + df;
+    let rank = Number(move.to[1]) - 1 + dr;
+    while (file >= 0 && file < 8 && rank >= 0 && rank < 8 && lined.length < 2) {
+      const square = toSquare(file, rank);
+      const piece = chess.get(square);
+      if (piece) {
+        if (piece.color === us) break;
+        lined.push(square);
+      }
+      file += df;
+      rank += dr;
+    }
+    if (lined.length < 2) continue;
+
+    const front = chess.get(lined[0])!;
+    const back = chess.get(lined[1])!;
+    if (PIECE_VALUES[back.type] > PIECE_VALUES[front.type]) {
+      if (back.type === "k" || PIECE_VALUES[back.type] > value) motifs.push("pin");
+    } else if (
+      PIECE_VALUES[front.type] > PIECE_VALUES[back.type] &&
+      isTarget(chess, lined[1], value)
+    ) {
+      motifs.push("skewer");
+    }
+  }
+
+  // Discovered attack: moving out of the way lets another piece hit a target
+  const discovered = Array.from(after.entries()).some(([square, attackers]) =>
+    attackers.some(
+      (attacker) =>
+        attacker !== move.to &&
+        !(before.get(square) ?? []).includes(attacker) &&
+        "brq".includes(chess.get(attacker)!.type) &&
+        isTarget(chess, square, PIECE_VALUES[chess.get(attacker)!.type])
+    )
+  );
+  if (discovered) motifs.push("discoveredAttack");
+
+  return motifs;
+}
+
+/** Motifs for the side to move in `fen` if the `line` (SAN) is played. */
+function lineMotifs(fen: string, line: string[]): TacticalTheme[] {
+  const chess = new Chess(fen);
+  const us = chess.turn();
+  const motifs: TacticalTheme[] = [];
+
+  let moverMoves = 0;
+  let last: Move | null = null;
+  for (let ply = 0; ply < line.length; ply++) {
+    const before = ply < TACTIC_PLIES && chess.turn() === us ? attacksOn(chess, us) : null;
+    try {
+      last = chess.move(line[ply]);
+    } catch {
+      break; // a line that doesn't fit the position is used up to there
+    }
+    if (last.color === us) moverMoves++;
+    if (before) motifs.push(...moveMotifs(chess, last, before));
+  }
+
+  // Mate: the line ends with the mover checkmating
+  if (last && last.color === us && chess.isCheckmate()) {
+    if (moverMoves <= MAX_MATE) motifs.push(`mateIn${moverMoves}` as TacticalTheme);
+    const king = chess.findPiece({ type: "k", color: chess.turn() })[0];
+    const backRank = chess.turn() === "w" ? "1" : "8";
+    if (king[1] === backRank && "rq".includes(last.piece) && last.to[1] === backRank) {
+      motifs.push("backRankMate");
+    }
+  }
+
+  return motifs;
+}
+
+/**
+ * Label what a move missed or allowed.
+ *
+ * @param fenBefore - Position the move was played in
+ * @param played    - The move played (SAN)
+ * @param bestLine  - Engine's principal variation from `fenBefore` (SAN)
+ * @param reply     - Engine's principal variation after the move (SAN),
+ *                    i.e. how the opponent punishes it
+ * @returns         - Puzzle theme names, in TACTICAL_THEMES order
+ */
+export function detectMotifs(
+  fenBefore: string,
+  played: string,
+  bestLine: string[],
+  reply: string[] = []
+): TacticalTheme[] {
+  const motifs = new Set<TacticalTheme>(lineMotifs(fenBefore, bestLine));
+
+  const chess = new Chess(fenBefore);
+  try {
+    chess.move(played);
+  } catch {
+    return TACTICAL_THEMES.filter((theme) => motifs.has(theme));
+  }
+  for (const motif of lineMotifs(chess.fen(), reply)) motifs.add(motif);
+
+  // The move left at least a pawn en prise
+  if (materialGivenUp(fenBefore, played) >= PIECE_VALUES.p) motifs.add("hangingPiece");
+
+  return TACTICAL_THEMES.filter((theme) => motifs.has(theme));
+}
+
+// ---------------------------------------------------------------------------
+// Weakness profile
+// ---------------------------------------------------------------------------
+
+/** How often each motif came up in the player's analysed games. */
+export function countMotifs(games: SavedGame[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const game of games) {
+    for (const { evaluation } of getPlayerEvaluations(game)) {
+      for (const motif of evaluation.motifs ?? []) {
+        counts[motif] = (counts[motif] || 0) + 1;
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Recount the user's weakness profile from their game history. Counting
+ * from scratch means re-analysing a game never counts its mistakes twice.
+ */
+export function refreshWeaknessProfile(): void {
+  const profile = getUserProfile();
+  saveUserProfile({ ...profile, weaknessProfile: countMotifs(getGameHistory()) });
+}
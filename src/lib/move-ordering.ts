@@ -0,0 +1,139 @@
+/**
+ * Move ordering for the alpha-beta search.
+ *
+ * Alpha-beta prunes best when strong moves are searched first, so moves
+ * are sorted: hash move, promotions, captures by MVV-LVA (most valuable
+ * victim, least valuable attacker), killer moves, then quiet moves by
+ * their history score.
+ *
+ * Moves are handled as SAN strings: verbose chess.js moves rebuild the
+ * whole move list and two FENs per move, which is far too slow to do at
+ * every node.
+ */
+
+import { Chess, type Square } from "chess.js";
+
+const SAN_TARGET = /([a-h][1-8])(=([QRBN]))?[+#]?$/;
+
+const HASH_MOVE_SCORE = 1_000_000;
+const PROMOTION_SCORE = 900_000;
+const CAPTURE_SCORE = 800_000;
+const KILLER_SCORE = 700_000;
+// History scores are capped so quiet moves never outrank killers
+const MAX_HISTORY = 600_000;
+
+/** Parse the parts of a SAN move that move ordering cares about. */
+export function describeSan(san: string): {
+  piece: string; // mover, lowercase chess.js piece type
+  to: Square | null; // null for castling
+  isCapture: boolean;
+  promotion: string | null; // lowercase piece type
+  isCheck: boolean;
+} {
+  const match = SAN_TARGET.exec(san);
+  return {
+    piece: "KQRBN".includes(san[0]) ? san[0].toLowerCase() : san[0] === "O" ? "k" : "p",
+    to: match ? (match[1] as Square) : null,
+    isCapture: san.includes("x"),
+    promotion: match?.[3] ? match[3].toLowerCase() : null,
+    isCheck: /[+#]$/.test(san),
+  };
+}
+
+/**
+ * Value of the piece a SAN move captures (0 for non-captures). Must be
+ * called before the move is made.
+ */
+export function capturedValue(
+  chess: Chess,
+  san: string,
+  pieceValues: Record<string, number>
+): number {
+  const { isCapture, to } = describeSan(san);
+  if (!isCapture || !to) return 0;
+  const victim = chess.get(to);
+  // An empty target square means en passant
+  return pieceValues[victim ? victim.type : "p"] || 0;
+}
+
+/** MVV-LVA score: prefer taking big pieces with small ones. */
+export function mvvLvaScore(
+  chess: Chess,
+  san: string,
+  pieceValues: Record<string, number>
+): number {
+  const victim = capturedValue(chess, san, pieceValues);
+  if (victim === 0) return 0;
+  const attacker = pieceValues[describeSan(san).piece] || 0;
+  // Kings are worth "infinite" material; treat them as the cheapest
+  // attacker since they can only take undefended pieces anyway
+  return victim * 10 - Math.min(attacker, 1000) / 10;
+}
+
+export interface MoveOrdering {
+  /**
+   * Sort `moves` (SAN, legal in `chess`) for searching at `ply`. `hashMove`
+   * comes from the transposition table, if any.
+   */
+  order(chess: Chess, moves: string[], ply: number, hashMove?: string): string[];
+  /**
+   * Record that `san` caused a beta cutoff at `ply` with `depth` plies
+   * remaining. Quiet moves become killers and gain history score.
+   */
+  recordCutoff(chess: Chess, san: string, ply: number, depth: number): void;
+}
+
+// Keyed by side to move + piece + target square, e.g. "wnf3"
+function historyKey(chess: Chess, san: string): string {
+  const { piece, to } = describeSan(san);
+  return `${chess.turn()}${piece}${to ?? san}`;
+}
+
+/**
+ * Create killer/history tables for one search. Both persist across the
+ * iterations of an iterative-deepening search.
+ */
+export function createMoveOrdering(
+  pieceValues: Record<string, number>
+): MoveOrdering {
+  const killers: string[][] = [];
+  const history = new Map<string, number>();
+
+  function scoreMove(chess: Chess, san: string, ply: number, hashMove?: string) {
+    if (san === hashMove) return HASH_MOVE_SCORE;
+
+    const { isCapture, promotion } = describeSan(san);
+    if (promotion) return PROMOTION_SCORE + (pieceValues[promotion] || 0);
+    if (isCapture) return CAPTURE_SCORE + mvvLvaScore(chess, san, pieceValues);
+
+    const plyKillers = killers[ply];
+    if (plyKillers) {
+      const index = plyKillers.indexOf(san);
+      if (index !== -1) return KILLER_SCORE - index;
+    }
+
+    return history.get(historyKey(chess, san)) ?? 0;
+  }
+
+  return {
+    order(chess, moves, ply, hashMove) {
+      return moves
+        .map((san) => ({ san, score: scoreMove(chess, san, ply, hashMove) }))
+        .sort((a, b) => b.score - a.score)
+        .map((m) => m.san);
+    },
+
+    recordCutoff(chess, san, ply, depth) {
+      const { isCapture, promotion } = describeSan(san);
+      if (isCapture || promotion) return;
+
+      // Two killer slots per ply, most recent first
+      const plyKillers = killers[ply] ?? [];
+      killers[ply] = [san, ...plyKillers.filter((k) => k !== san)].slice(0, 2);
+
+      const key = historyKey(chess, san);
+      const score = (history.get(key) ?? 0) + depth * depth;
+      history.set(key, Math.min(score, MAX_HISTORY));
+    },
+  };
+}
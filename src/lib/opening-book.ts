@@ -0,0 +1,266 @@
+/**
+ * Polyglot opening books (.bin files).
+ *
+ * A book is a list of 16-byte entries sorted by position key: the
+ * position's 64-bit Polyglot hash, a move, the move's weight and a learn
+ * field we ignore. The AI opponent plays from the active book while it has
+ * moves for the position, and game analysis marks moves found in it as
+ * "book".
+ */
+
+import { Chess } from "chess.js";
+import { POLYGLOT_RANDOM } from "./polyglot-random";
+
+export interface BookMove {
+  san: string;
+  uci: string;
+  weight: number;
+}
+
+export interface OpeningBook {
+  size: number; // number of entries
+  /** Legal book moves for a position, heaviest first; empty when out of book. */
+  lookup(fen: string): BookMove[];
+}
+
+/** A move to write into a book, for building books. */
+export interface BookEntry {
+  fen: string;
+  uci: string;
+  weight: number;
+}
+
+export const OPENING_BOOK_URL =
+  process.env.NEXT_PUBLIC_OPENING_BOOK_URL || "/book.bin";
+
+const ENTRY_SIZE = 16;
+
+// Each random number as [high 32 bits, low 32 bits]
+const RANDOM = POLYGLOT_RANDOM.map((hex) => [
+  parseInt(hex.slice(0, 8), 16),
+  parseInt(hex.slice(8), 16),
+]);
+const CASTLING_OFFSET = 768;
+const EN_PASSANT_OFFSET = 772;
+const TURN_OFFSET = 780;
+
+// Polyglot piece order: black pawn, white pawn, black knight, white knight…
+const PIECE_KINDS = "pPnNbBrRqQkK";
+const PROMOTIONS = ["", "n", "b", "r", "q"];
+
+type Key = [number, number];
+
+function computeKey(fen: string): Key {
+  const [placement, turn, castling, enPassant] = fen.split(" ");
+  const rows = placement.split("/"); // rank 8 first
+  let hi = 0;
+  let lo = 0;
+  const mix = (offset: number) => {
+    hi ^= RANDOM[offset][0];
+    lo ^= RANDOM[offset][1];
+  };
+
+  rows.forEach((row, index) => {
+    const rank = 7 - index;
+    let file = 0;
+    for (const char of row) {
+      if (char >= "1" && char <= "8") {
+        file += Number(char);
+        continue;
+      }
+      mix(64 * PIECE_KINDS.indexOf(char) + 8 * rank + file);
+      file++;
+    }
+  });
+
+  "KQkq".split("").forEach((right, index) => {
+    if (castling.includes(right)) mix(CASTLING_OFFSET + index);
+  });
+
+  // En passant only counts when a pawn of the side to move could capture
+  if (enPassant && enPassant !== "-") {
+    const file = enPassant.charCodeAt(0) - 97;
+    const pawnRow = rows[turn === "w" ? 3 : 4]; // rank 5 for white, 4 for black
+    const pawn = turn === "w" ? "P" : "p";
+    const squares: string[] = [];
+    for (const char of pawnRow) {
+      if (char >= "1" && char <= "8") squares.push(...Array(Number(char)).fill(""));
+      else squares.push(char);
+    }
+    if (squares[file - 1] === pawn || squares[file + 1] === pawn) {
+      mix(EN_PASSANT_OFFSET + file);
+    }
+  }
+
+  if (turn === "w") mix(TURN_OFFSET);
+  return [hi >>> 0, lo >>> 0];
+}
+
+/** A position's Polyglot key as 16 hex digits. */
+export function getPolyglotKey(fen: string): string {
+  const [hi, lo] = computeKey(fen);
+  return hi.toString(16).padStart(8, "0") + lo.toString(16).padStart(8, "0");
+}
+
+function compareKeys(a: Key, b: Key): number {
+  return a[0] !== b[0] ? a[0] - b[0] : a[1] - b[1];
+}
+
+// Polyglot writes castling as the king taking its own rook
+const CASTLING_MOVES: Record<string, string> = {
+  e1h1: "e1g1",
+  e1a1: "e1c1",
+  e8h8: "e8g8",
+  e8a8: "e8c8",
+};
+
+function decodeMove(encoded: number, chess: Chess): string {
+  const square = (file: number, row: number) =>
+    String.fromCharCode(97 + file) + String(row + 1);
+  const to = square(encoded & 7, (encoded >> 3) & 7);
+  const from = square((encoded >> 6) & 7, (encoded >> 9) & 7);
+  const uci = from + to + PROMOTIONS[(encoded >> 12) & 7];
+  const piece = chess.get(from as Parameters<Chess["get"]>[0]);
+  return piece?.type === "k" && CASTLING_MOVES[uci] ? CASTLING_MOVES[uci] : uci;
+}
+
+function encodeMove(uci: string, chess: Chess): number {
+  const piece = chess.get(uci.slice(0, 2) as Parameters<Chess["get"]>[0]);
+  const castle = Object.keys(CASTLING_MOVES).find(
+    (key) => CASTLING_MOVES[key] === uci
+  );
+  const move = piece?.type === "k" && castle ? castle : uci;
+  const file = (i: number) => move.charCodeAt(i) - 97;
+  const row = (i: number) => Number(move[i + 1]) - 1;
+  return (
+    file(2) |
+    (row(2) << 3) |
+    (file(0) << 6) |
+    (row(0) << 9) |
+    (Math.max(0, PROMOTIONS.indexOf(move[4] ?? "")) << 12)
+  );
+}
+
+/** Read a Polyglot book from the bytes of a .bin file. */
+export function createOpeningBook(data: ArrayBuffer): OpeningBook {
+  const view = new DataView(data);
+  const size = Math.floor(data.byteLength / ENTRY_SIZE);
+  const keyAt = (index: number): Key => [
+    view.getUint32(index * ENTRY_SIZE),
+    view.getUint32(index * ENTRY_SIZE + 4),
+  ];
+
+  return {
+    size,
+
+    lookup(fen) {
+      const key = computeKey(fen);
+
+      // First entry with this key
+      let low = 0;
+      let high = size;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (compareKeys(keyAt(mid), key) < 0) low = mid + 1;
+        else high = mid;
+      }
+
+      const chess = new Chess(fen);
+      const moves: BookMove[] = [];
+      for (let i = low; i < size && compareKeys(keyAt(i), key) === 0; i++) {
+        const offset = i * ENTRY_SIZE;
+        const uci = decodeMove(view.getUint16(offset + 8), chess);
+        const weight = view.getUint16(offset + 10);
+        try {
+          const move = chess.move({
+            from: uci.slice(0, 2),
+            to: uci.slice(2, 4),
+            promotion: uci[4],
+          });
+          chess.undo();
+          moves.push({ san: move.san, uci, weight });
+        } catch {
+          // Key collision or a corrupt entry: not a move here
+        }
+      }
+      return moves.sort((a, b) => b.weight - a.weight);
+    },
+  };
+}
+
+/** Write entries as a Polyglot book (sorted by key, as readers expect). */
+export function encodeOpeningBook(entries: BookEntry[]): ArrayBuffer {
+  const rows = entries
+    .map((entry) => ({
+      key: computeKey(entry.fen),
+      move: encodeMove(entry.uci, new Chess(entry.fen)),
+      weight: entry.weight,
+    }))
+    .sort((a, b) => compareKeys(a.key, b.key) || b.weight - a.weight);
+
+  const data = new ArrayBuffer(rows.length * ENTRY_SIZE);
+  const view = new DataView(data);
+  rows.forEach((row, index) => {
+    const offset = index * ENTRY_SIZE;
+    view.setUint32(offset, row.key[0]);
+    view.setUint32(offset + 4, row.key[1]);
+    view.setUint16(offset + 8, row.move);
+    view.setUint16(offset + 10, Math.min(0xffff, Math.max(0, Math.round(row.weight))));
+  });
+  return data;
+}
+
+/**
+ * Choose a book move at random, in proportion to the book weights. Moves
+ * with weight 0 are never played. Null when nothing is playable.
+ */
+export function pickBookMove(
+  moves: BookMove[],
+  random: () => number = Math.random
+): BookMove | null {
+  const playable = moves.filter((move) => move.weight > 0);
+  const total = playable.reduce((sum, move) => sum + move.weight, 0);
+  if (total === 0) return null;
+
+  let roll = random() * total;
+  for (const move of playable) {
+    roll -= move.weight;
+    if (roll < 0) return move;
+  }
+  return playable[playable.length - 1];
+}
+
+// ---------------------------------------------------------------------------
+// Active book
+// ---------------------------------------------------------------------------
+
+let activeBook: OpeningBook | null = null;
+
+/** The book used by the AI opponent and game analysis, if one is loaded. */
+export function getOpeningBook(): OpeningBook | null {
+  return activeBook;
+}
+
+export function setOpeningBook(book: OpeningBook | null): void {
+  activeBook = book;
+}
+
+/**
+ * Fetch a book and make it the active one. Resolves to null (leaving no
+ * book active) when it can't be loaded.
+ */
+export async function loadOpeningBook(
+  url: string = OPENING_BOOK_URL
+): Promise<OpeningBook | null> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const book = createOpeningBook(await res.arrayBuffer());
+    setOpeningBook(book);
+    return book;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.warn(`[book] Could not load opening book from ${url}:`, message);
+    return null;
+  }
+}
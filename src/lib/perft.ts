@@ -0,0 +1,114 @@
+/**
+ * Perft: counts the leaf nodes of the move tree to a fixed depth. Known
+ * counts for standard test positions catch move-generation bugs (castling,
+ * en passant, promotions, pins) that ordinary play rarely exercises. Moves
+ * are generated and played as SAN, the way the search does.
+ */
+
+import { Chess } from "chess.js";
+
+export interface PerftPosition {
+  name: string;
+  fen: string;
+  nodes: number[]; // expected counts at depth 1, 2, 3…
+}
+
+// From the Chess Programming Wiki's "Perft Results" page
+export const PERFT_POSITIONS: PerftPosition[] = [
+  {
+    name: "Start position",
+    fen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    nodes: [20, 400, 8902, 197281, 4865609],
+  },
+  {
+    name: "Kiwipete",
+    fen: "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+    nodes: [48, 2039, 97862, 4085603],
+  },
+  {
+    name: "Position 3",
+    fen: "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1",
+    nodes: [14, 191, 2812, 43238, 674624],
+  },
+  {
+    name: "Position 4",
+    fen: "r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1",
+    nodes: [6, 264, 9467, 422333],
+  },
+  {
+    name: "Position 5",
+    fen: "rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8",
+    nodes: [44, 1486, 62379, 2103487],
+  },
+  {
+    name: "Position 6",
+    fen: "r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10",
+    nodes: [46, 2079, 89890, 3894594],
+  },
+];
+
+/** Number of leaf nodes `depth` plies below the position. */
+export function perft(chess: Chess, depth: number): number {
+  if (depth === 0) return 1;
+  const moves = chess.moves();
+  // Leaves needn't be played, only counted
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    chess.move(move);
+    nodes += perft(chess, depth - 1);
+    chess.undo();
+  }
+  return nodes;
+}
+
+/**
+ * Perft split by root move, keyed in UCI notation so the counts can be
+ * compared line by line with another engine's "go perft" output.
+ */
+export function divide(chess: Chess, depth: number): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const move of chess.moves({ verbose: true })) {
+    chess.move(move.san);
+    counts[move.from + move.to + (move.promotion ?? "")] = perft(chess, depth - 1);
+    chess.undo();
+  }
+  return counts;
+}
+
+export interface PerftResult {
+  name: string;
+  depth: number;
+  nodes: number;
+  expected: number;
+  time: number; // ms
+  passed: boolean;
+}
+
+/**
+ * Run perft on each position to `maxDepth`, or to the deepest depth with a
+ * known count if that is shallower.
+ */
+export function runPerft(
+  maxDepth: number,
+  positions: PerftPosition[] = PERFT_POSITIONS,
+  onResult?: (result: PerftResult) => void
+): PerftResult[] {
+  return positions.map((position) => {
+    const depth = Math.min(maxDepth, position.nodes.length);
+    const start = Date.now();
+    const nodes = perft(new Chess(position.fen), depth);
+    const expected = position.nodes[depth - 1];
+    const result: PerftResult = {
+      name: position.name,
+      depth,
+      nodes,
+      expected,
+      time: Date.now() - start,
+      passed: nodes === expected,
+    };
+    onResult?.(result);
+    return result;
+  });
+}
@@ -0,0 +1,105 @@
+/**
+ * Personal puzzles: positions from the user's own analysed games where
+ * they went wrong but a single move would have won. They're stored as
+ * ordinary PuzzleData in a "my puzzles" collection next to the puzzle bank.
+ */
+
+import { Chess } from "chess.js";
+import { winPercent } from "./accuracy";
+import { detectMotifs } from "./motifs";
+import type { PuzzleData } from "./puzzle-bank";
+import { getPlayerEvaluations, type CandidateMove, type SavedGame } from "./game-storage";
+
+const MY_PUZZLES_KEY = "chess-coach-my-puzzles";
+
+// Oldest puzzles are dropped beyond this
+const MAX_PUZZLES = 200;
+
+// The best move must leave the player at least this likely to win…
+const WINNING_PERCENT = 70;
+
+// …and the next best move this many points less likely, so only one
+// move solves the puzzle
+const UNIQUE_MARGIN = 20;
+
+export function getPersonalPuzzles(): PuzzleData[] {
+  try {
+    const data = localStorage.getItem(MY_PUZZLES_KEY);
+    if (!data) return [];
+    return JSON.parse(data) as PuzzleData[];
+  } catch {
+    return [];
+  }
+}
+
+export function savePersonalPuzzles(puzzles: PuzzleData[]): void {
+  try {
+    localStorage.setItem(MY_PUZZLES_KEY, JSON.stringify(puzzles));
+  } catch {
+    console.warn("[personal-puzzles] Failed to save");
+  }
+}
+
+export function deletePersonalPuzzle(id: string): void {
+  savePersonalPuzzles(getPersonalPuzzles().filter((p) => p.id !== id));
+}
+
+function toUci(fen: string, san: string): string {
+  const move = new Chess(fen).move(san);
+  return move.from + move.to + (move.promotion ?? "");
+}
+
+/**
+ * Puzzles from an analysed game's mistakes and blunders: the position the
+ * player went wrong in, with the winning move as the solution. The
+ * opponent's previous move is played first to set the scene.
+ *
+ * @param game   - A game with analysis
+ * @param rating - Puzzle rating to give them (the user's own, as they're
+ *                 positions the user got wrong at the board)
+ */
+export function createPersonalPuzzles(game: SavedGame, rating: number): PuzzleData[] {
+  const perspective = game.metadata.playerColor === "white" ? 1 : -1;
+  const winning = (candidate: CandidateMove) =>
+    winPercent(perspective * candidate.centipawns);
+
+  const puzzles: PuzzleData[] = [];
+  for (const { index, evaluation } of getPlayerEvaluations(game)) {
+    if (evaluation.classification !== "mistake" && evaluation.classification !== "blunder") {
+      continue;
+    }
+    const [best, second] = evaluation.candidates ?? [];
+    if (!best || !second) continue;
+    if (winning(best) < WINNING_PERCENT) continue;
+    if (winning(second) > winning(best) - UNIQUE_MARGIN) continue;
+
+    const move = game.moves[index];
+    const previous = game.moves[index - 1];
+    const solution = toUci(move.fenBefore, best.move);
+    const motifs = detectMotifs(move.fenBefore, best.move, best.line.split(" "));
+
+    puzzles.push({
+      id: `mine_${game.id}_${index}`,
+      fen: previous ? previous.fenBefore : move.fenBefore,
+      moves: previous ? [toUci(previous.fenBefore, previous.san), solution] : [solution],
+      rating,
+      themes: evaluation.phase ? [...motifs, evaluation.phase] : motifs,
+      description: `From your game on ${new Date(game.metadata.date).toLocaleDateString()}: you played ${move.san} here.`,
+    });
+  }
+  return puzzles;
+}
+
+/**
+ * Add a game's puzzles to the collection, newest first. Returns how many
+ * were new (re-analysing a game doesn't add its puzzles again).
+ */
+export function addPersonalPuzzles(game: SavedGame, rating: number): number {
+  const existing = getPersonalPuzzles();
+  const ids = new Set(existing.map((p) => p.id));
+  const added = createPersonalPuzzles(game, rating).filter((p) => !ids.has(p.id));
+  if (added.length > 0) {
+    savePersonalPuzzles([...added, ...existing].slice(0, MAX_PUZZLES));
+  }
+  return added.length;
+}
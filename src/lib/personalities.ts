@@ -0,0 +1,131 @@
+/**
+ * Opponent personalities: styles of play for the AI, each a set of
+ * evaluation weights plus, for the hustler, a taste for traps. A
+ * personality changes what the engine likes rather than how well it sees;
+ * its rating is only the strength it's offered at by default.
+ */
+
+import { PIECE_VALUES, type EvaluationWeights } from "./evaluation";
+import type { GameMetadata } from "./game-storage";
+
+export type PersonalityId =
+  | "standard"
+  | "attacker"
+  | "positional"
+  | "grinder"
+  | "hustler";
+
+export interface Personality {
+  id: PersonalityId;
+  name: string;
+  style: string; // short label, e.g. "Aggressive attacker"
+  description: string;
+  rating: number; // default strength on the play page
+  weights: Partial<EvaluationWeights>;
+  // How much worse than the best move (cp) a move may be and still be
+  // played for the trap it sets; 0 never plays for traps
+  trapMargin: number;
+}
+
+// Every piece but the king worth `factor` as much, so positional and
+// attacking terms weigh more against material
+function scaledPieceValues(factor: number): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(PIECE_VALUES).map(([type, value]) => [
+      type,
+      type === "k" ? value : Math.round(value * factor),
+    ])
+  );
+}
+
+export const PERSONALITIES: Personality[] = [
+  {
+    id: "standard",
+    name: "Coach",
+    style: "Balanced",
+    description: "Plays each position on its merits, with no particular style.",
+    rating: 1200,
+    weights: {},
+    trapMargin: 0,
+  },
+  {
+    id: "attacker",
+    name: "Blaze",
+    style: "Aggressive attacker",
+    description:
+      "Throws pieces at your king and happily gives up material to keep the attack going.",
+    rating: 1500,
+    weights: {
+      pieceValues: scaledPieceValues(0.85),
+      kingAttack: 2,
+      mobility: 1.4,
+      kingSafety: 0.7,
+    },
+    trapMargin: 0,
+  },
+  {
+    id: "positional",
+    name: "Petra",
+    style: "Solid positional player",
+    description:
+      "Keeps a sound pawn structure and a safe king, and slowly improves her pieces.",
+    rating: 1700,
+    weights: {
+      pawnStructure: 1.6,
+      kingSafety: 1.5,
+      pieceSquare: 1.2,
+      rookOpenFile: 1.3,
+      bishopPair: 1.5,
+    },
+    trapMargin: 0,
+  },
+  {
+    id: "grinder",
+    name: "Boris",
+    style: "Endgame grinder",
+    description:
+      "Trades pieces the moment he's ahead and squeezes the win out of the endgame.",
+    rating: 1600,
+    weights: {
+      simplification: 2,
+      pawnStructure: 1.3,
+      mobility: 0.8,
+    },
+    trapMargin: 0,
+  },
+  {
+    id: "hustler",
+    name: "Slick",
+    style: "Club hustler",
+    description:
+      "Sets cheap traps, leaving tempting captures that lose, and hopes you take the bait.",
+    rating: 1300,
+    weights: {
+      mobility: 1.2,
+      kingAttack: 0.8,
+    },
+    trapMargin: 40,
+  },
+];
+
+export const DEFAULT_PERSONALITY: PersonalityId = "standard";
+
+/** The personality with this id, or the standard one for unknown ids. */
+export function getPersonality(id?: string): Personality {
+  return (
+    PERSONALITIES.find((personality) => personality.id === id) ??
+    PERSONALITIES.find((personality) => personality.id === DEFAULT_PERSONALITY)!
+  );
+}
+
+/**
+ * Label for the AI opponent of a saved game, e.g. "Blaze (1500)". Games
+ * from before personalities say "AI", with their difficulty if any.
+ */
+export function describeOpponent(
+  metadata: Pick<GameMetadata, "aiPersonality" | "aiRating" | "aiDifficulty">
+): string {
+  const name = metadata.aiPersonality ? getPersonality(metadata.aiPersonality).name : "AI";
+  const strength = metadata.aiRating ?? metadata.aiDifficulty;
+  return strength ? `${name} (${strength})` : name;
+}
@@ -0,0 +1,303 @@
+/**
+ * Persistent cache of position evaluations, so re-analysing a game, or
+ * analysing one that shares an opening with a game analysed before,
+ * doesn't search the same positions again.
+ *
+ * Entries are held in memory, so lookups are synchronous, and written
+ * through to IndexedDB in batches where it's available (browser tabs and
+ * workers); elsewhere the cache lasts as long as the process. Entries are
+ * per engine, as different engines score the same position differently.
+ */
+
+import type { EngineProvider, PositionAnalysis } from "./engine-provider";
+import type { SearchLine } from "./search";
+
+const DB_NAME = "chess-coach-position-cache";
+const DB_VERSION = 1;
+const POSITIONS_STORE = "positions";
+const META_STORE = "meta";
+const COUNTERS_KEY = "counters";
+
+// Least recently used positions are dropped beyond this many (a few MB)
+const MAX_ENTRIES = 20000;
+
+// Changes are written to storage this long after the first one (ms)
+const FLUSH_DELAY = 1000;
+
+export interface CachedPosition {
+  key: string; // engine and normalised FEN
+  engine: string; // provider name
+  fen: string; // normalised, see normalizeFen
+  depth: number;
+  multiPv: number; // lines asked for (positions with fewer moves have fewer)
+  // Best first: the first line's move, score (white's perspective) and
+  // principal variation are the position's best move, score and PV
+  lines: SearchLine[];
+  lastUsed: number; // ms timestamp
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats extends CacheCounters {
+  entries: number;
+  hitRate: number | null; // percent of lookups answered (null before any)
+}
+
+/** Where the cache keeps its entries between sessions. */
+export interface CacheStore {
+  load(): Promise<{ entries: CachedPosition[]; counters: CacheCounters }>;
+  write(put: CachedPosition[], remove: string[], counters: CacheCounters): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface PositionCache {
+  /** Resolves once stored entries are loaded; lookups before then miss. */
+  ready: Promise<void>;
+  get(fen: string, engine: string, multiPv: number): PositionAnalysis | null;
+  set(fen: string, engine: string, multiPv: number, analysis: PositionAnalysis): void;
+  stats(): CacheStats;
+  clear(): Promise<void>;
+}
+
+/**
+ * The parts of a FEN that make the position: the move counters don't
+ * change the evaluation. (chess.js only writes an en passant square when
+ * the capture is possible, so that needs no normalising.)
+ */
+export function normalizeFen(fen: string): string {
+  return fen.split(" ").slice(0, 4).join(" ");
+}
+
+function cacheKey(engine: string, fen: string): string {
+  return `${engine}|${normalizeFen(fen)}`;
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB storage
+// ---------------------------------------------------------------------------
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** IndexedDB storage, or null where there's no IndexedDB (server, tests). */
+export function createIndexedDBStore(name: string = DB_NAME): CacheStore | null {
+  if (typeof indexedDB === "undefined") return null;
+
+  let db: Promise<IDBDatabase> | null = null;
+  function open(): Promise<IDBDatabase> {
+    db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(POSITIONS_STORE, { keyPath: "key" });
+        req.result.createObjectStore(META_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return db;
+  }
+
+  return {
+    async load() {
+      const tx = (await open()).transaction([POSITIONS_STORE, META_STORE], "readonly");
+      const [entries, counters] = await Promise.all([
+        request(tx.objectStore(POSITIONS_STORE).getAll() as IDBRequest<CachedPosition[]>),
+        request(
+          tx.objectStore(META_STORE).get(COUNTERS_KEY) as IDBRequest<CacheCounters | undefined>
+        ),
+      ]);
+      return { entries, counters: counters ?? { hits: 0, misses: 0 } };
+    },
+
+    async write(put, remove, counters) {
+      const tx = (await open()).transaction([POSITIONS_STORE, META_STORE], "readwrite");
+      const positions = tx.objectStore(POSITIONS_STORE);
+      put.forEach((entry) => positions.put(entry));
+      remove.forEach((key) => positions.delete(key));
+      tx.objectStore(META_STORE).put(counters, COUNTERS_KEY);
+      await completion(tx);
+    },
+
+    async clear() {
+      const tx = (await open()).transaction([POSITIONS_STORE, META_STORE], "readwrite");
+      tx.objectStore(POSITIONS_STORE).clear();
+      tx.objectStore(META_STORE).clear();
+      await completion(tx);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cache
+// ---------------------------------------------------------------------------
+
+/**
+ * @param store      - Where entries persist (null to keep them in memory only)
+ * @param maxEntries - Least recently used entries are evicted beyond this
+ */
+export function createPositionCache(
+  store: CacheStore | null,
+  maxEntries: number = MAX_ENTRIES
+): PositionCache {
+  // Kept in use order (entries move to the end when used), so the first
+  // entries are the least recently used
+  const entries = new Map<string, CachedPosition>();
+  let counters: CacheCounters = { hits: 0, misses: 0 };
+
+  // Changes not written to the store yet
+  const changed = new Set<string>();
+  const removed = new Set<string>();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function flush() {
+    flushTimer = null;
+    if (!store) return;
+    const put = Array.from(changed, (key) => entries.get(key)!);
+    const remove = Array.from(removed);
+    changed.clear();
+    removed.clear();
+    store.write(put, remove, { ...counters }).catch((err) => {
+      console.warn("[position-cache] Failed to save:", err);
+    });
+  }
+
+  function scheduleFlush() {
+    if (store && !flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY);
+  }
+
+  function use(entry: CachedPosition) {
+    entry.lastUsed = Date.now();
+    entries.delete(entry.key);
+    entries.set(entry.key, entry);
+    changed.add(entry.key);
+    removed.delete(entry.key);
+
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+      changed.delete(oldest);
+      removed.add(oldest);
+    }
+    scheduleFlush();
+  }
+
+  const ready = store
+    ? store
+        .load()
+        .then((stored) => {
+          // Oldest first, behind anything cached while loading
+          const loaded = stored.entries
+            .filter((entry) => !entries.has(entry.key))
+            .sort((a, b) => a.lastUsed - b.lastUsed);
+          const recent = Array.from(entries.values());
+          entries.clear();
+          for (const entry of [...loaded, ...recent]) entries.set(entry.key, entry);
+          counters = {
+            hits: counters.hits + stored.counters.hits,
+            misses: counters.misses + stored.counters.misses,
+          };
+        })
+        .catch((err) => {
+          console.warn("[position-cache] Failed to load:", err);
+        })
+    : Promise.resolve();
+
+  return {
+    ready,
+
+    get(fen, engine, multiPv) {
+      const entry = entries.get(cacheKey(engine, fen));
+      if (!entry || entry.multiPv < multiPv) {
+        counters.misses++;
+        scheduleFlush();
+        return null;
+      }
+      counters.hits++;
+      use(entry);
+      return { lines: entry.lines.slice(0, multiPv), depth: entry.depth };
+    },
+
+    set(fen, engine, multiPv, analysis) {
+      const key = cacheKey(engine, fen);
+      const existing = entries.get(key);
+      // Keep a deeper search with as many lines
+      if (existing && existing.depth > analysis.depth && existing.multiPv >= multiPv) return;
+      use({
+        key,
+        engine,
+        fen: normalizeFen(fen),
+        depth: analysis.depth,
+        multiPv,
+        lines: analysis.lines,
+        lastUsed: Date.now(),
+      });
+    },
+
+    stats() {
+      const lookups = counters.hits + counters.misses;
+      return {
+        ...counters,
+        entries: entries.size,
+        hitRate: lookups > 0 ? (counters.hits / lookups) * 100 : null,
+      };
+    },
+
+    async clear() {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+      entries.clear();
+      changed.clear();
+      removed.clear();
+      counters = { hits: 0, misses: 0 };
+      await store?.clear();
+    },
+  };
+}
+
+let sharedCache: PositionCache | null = null;
+
+/** The cache game analysis uses, persisted where IndexedDB is available. */
+export function getPositionCache(): PositionCache {
+  sharedCache ??= createPositionCache(createIndexedDBStore());
+  return sharedCache;
+}
+
+/**
+ * A provider that answers from `cache` when it can and adds what it had
+ * to search for. Analyses are stored under the engine that actually
+ * answered, so a provider's fallback results never pass for its own.
+ */
+export function withPositionCache(provider: EngineProvider, cache: PositionCache): EngineProvider {
+  // The engine that answered last, whose entries are looked up
+  let source = provider.name;
+
+  return {
+    name: provider.name,
+    async analyse(fen, multiPv) {
+      await cache.ready;
+      const cached = cache.get(fen, source, multiPv);
+      if (cached) return cached;
+      const analysis = await provider.analyse(fen, multiPv);
+      if (analysis) {
+        source = analysis.engine ?? provider.name;
+        cache.set(fen, source, multiPv, analysis);
+      }
+      return analysis;
+    },
+  };
+}
@@ -0,0 +1,516 @@
+/**
+ * Alpha-beta search shared by the AI opponent and game analysis.
+ *
+ * Iterative deepening over a minimax search (scores are always centipawns
+ * from white's perspective), backed by a transposition table and move
+ * ordering, and finished off with a quiescence search so lines never end
+ * mid-capture-sequence. Checkmates are scored by distance from the root
+ * (see MATE_SCORE), so the search prefers the quickest mate and the
+ * slowest defeat.
+ * Each caller supplies its own evaluation function and table.
+ *
+ * The recursion is written as generators that pause every few hundred
+ * nodes: searchPosition runs straight through, while searchPositionAsync
+ * hands control back to the event loop at those pauses, so input (a UCI
+ * "stop", say) is still read while it thinks.
+ */
+
+import { Chess } from "chess.js";
+import type { BoundType, TranspositionTable } from "./transposition-table";
+import { MATE_SCORE, isMateScore } from "./evaluation";
+import {
+  createMoveOrdering,
+  capturedValue,
+  mvvLvaScore,
+  type MoveOrdering,
+} from "./move-ordering";
+
+export interface SearchOptions {
+  evaluate: (chess: Chess) => number; // centipawns from white's perspective
+  pieceValues: Record<string, number>; // move ordering and delta pruning
+  table: TranspositionTable;
+  maxDepth: number;
+  deadline?: number; // Date.now() value after which the search stops
+  shouldStop?: () => boolean; // polled with the clock; true stops the search
+  onIteration?: (result: SearchResult) => void; // after each completed depth
+  multiPv?: number; // how many best root moves to score exactly (default 1)
+}
+
+/** One candidate root move with its score and principal variation. */
+export interface SearchLine {
+  move: string; // SAN
+  score: number;
+  pv: string[]; // starting with move
+}
+
+export interface SearchResult {
+  bestMove: string; // SAN
+  score: number; // centipawns from white's perspective, or a mate score
+  depth: number; // deepest iteration that completed
+  pv: string[]; // principal variation (SAN), starting with bestMove
+  lines: SearchLine[]; // the best `multiPv` root moves, best first
+  nodes: number;
+}
+
+interface SearchState extends SearchOptions {
+  multiPv: number;
+  canAbort: boolean; // the first iteration always runs to completion
+  aborted: boolean;
+  nodes: number;
+  pv: string[]; // principal variation from the previous iteration
+  rootMoves: string[]; // best root moves from the previous iteration
+  ordering: MoveOrdering;
+}
+
+// Checking the clock is comparatively slow; only do it every N nodes
+const TIME_CHECK_INTERVAL = 512;
+
+// How long searchPositionAsync runs before handing back to the event loop
+// (ms)
+const YIELD_INTERVAL = 20;
+
+// A search step: pauses (yields) every TIME_CHECK_INTERVAL nodes and
+// returns its score or result
+type Search<T> = Generator<void, T, void>;
+
+// Quiescence search limits: how many plies of captures to follow, and for
+// how many of those plies checking moves are also searched
+const MAX_QUIESCENCE_PLIES = 8;
+const QUIESCENCE_CHECK_PLIES = 1;
+
+// A capture is skipped in quiescence if even winning the captured piece
+// plus this margin can't lift the score back to alpha
+const DELTA_MARGIN = 200;
+
+function outOfTime(state: SearchState): boolean {
+  if (state.aborted) return true;
+  if (
+    state.canAbort &&
+    state.nodes % TIME_CHECK_INTERVAL === 0 &&
+    ((state.deadline !== undefined && Date.now() >= state.deadline) || state.shouldStop?.())
+  ) {
+    state.aborted = true;
+  }
+  return state.aborted;
+}
+
+// Move a preferred move (PV or hash move, if legal here) to the front
+function moveToFront(moves: string[], preferred?: string): string[] {
+  if (!preferred) return moves;
+  const index = moves.indexOf(preferred);
+  if (index <= 0) return moves;
+  return [preferred, ...moves.slice(0, index), ...moves.slice(index + 1)];
+}
+
+// Score for the side to move being checkmated `ply` plies from the root
+function matedScore(chess: Chess, ply: number): number {
+  return chess.turn() === "w" ? -(MATE_SCORE - ply) : MATE_SCORE - ply;
+}
+
+// Mate scores are stored relative to the node rather than the root, so a
+// table hit reached at a different ply still reports the right distance
+function toTableScore(score: number, ply: number): number {
+  if (!isMateScore(score)) return score;
+  return score > 0 ? score + ply : score - ply;
+}
+
+function fromTableScore(score: number, ply: number): number {
+  if (!isMateScore(score)) return score;
+  return score > 0 ? score - ply : score + ply;
+}
+
+function boundFor(score: number, alpha: number, beta: number): BoundType {
+  if (score <= alpha) return "upper";
+  if (score >= beta) return "lower";
+  return "exact";
+}
+
+// ---------------------------------------------------------------------------
+// Quiescence search
+// ---------------------------------------------------------------------------
+
+/**
+ * Search only captures, promotions and (near the horizon) checks until the
+ * position is quiet. The side to move may "stand pat" on the static
+ * evaluation instead of making a losing capture; when in check every
+ * evasion is searched.
+ */
+function* quiescence(
+  chess: Chess,
+  alpha: number,
+  beta: number,
+  isMaximizing: boolean,
+  state: SearchState,
+  ply: number,
+  qPly: number
+): Search<number> {
+  state.nodes++;
+  if (state.nodes % TIME_CHECK_INTERVAL === 0) yield;
+  if (outOfTime(state)) return 0;
+
+  const inCheck = chess.inCheck();
+  const moves = chess.moves();
+  if (moves.length === 0) {
+    return inCheck ? matedScore(chess, ply) : 0;
+  }
+  if (qPly >= MAX_QUIESCENCE_PLIES) {
+    return state.evaluate(chess);
+  }
+
+  let best = isMaximizing ? -Infinity : Infinity;
+  let standPat = 0;
+
+  if (!inCheck) {
+    standPat = state.evaluate(chess);
+    best = standPat;
+    if (isMaximizing) {
+      if (standPat >= beta) return standPat;
+      alpha = Math.max(alpha, standPat);
+    } else {
+      if (standPat <= alpha) return standPat;
+      beta = Math.min(beta, standPat);
+    }
+  }
+
+  const candidates = inCheck
+    ? moves
+    : moves.filter(
+        (san) =>
+          san.includes("x") ||
+          san.includes("=") ||
+          (qPly < QUIESCENCE_CHECK_PLIES && /[+#]$/.test(san))
+      );
+
+  // Most valuable victim first, least valuable attacker as tie-break
+  const scored = candidates.map((san) => ({
+    san,
+    gain: capturedValue(chess, san, state.pieceValues),
+    order: mvvLvaScore(chess, san, state.pieceValues),
+  }));
+  scored.sort((a, b) => b.order - a.order);
+
+  for (const { san, gain } of scored) {
+    // Delta pruning: skip captures that can't possibly raise the score
+    // enough to matter (promotions and checks are always tried)
+    if (!inCheck && gain > 0 && !san.includes("=") && !/[+#]$/.test(san)) {
+      if (isMaximizing && standPat + gain + DELTA_MARGIN <= alpha) continue;
+      if (!isMaximizing && standPat - gain - DELTA_MARGIN >= beta) continue;
+    }
+
+    chess.move(san);
+    const score = yield* quiescence(chess, alpha, beta, !isMaximizing, state, ply + 1, qPly + 1);
+    chess.undo();
+    if (state.aborted) return 0;
+
+    if (isMaximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (beta <= alpha) break;
+  }
+
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Minimax with alpha-beta pruning
+// ---------------------------------------------------------------------------
+
+function* minimax(
+  chess: Chess,
+  depth: number,
+  alpha: number,
+  beta: number,
+  isMaximizing: boolean,
+  state: SearchState,
+  ply: number,
+  onPv: boolean
+): Search<number> {
+  if (chess.isGameOver()) {
+    return chess.isCheckmate() ? matedScore(chess, ply) : 0;
+  }
+  if (depth === 0) {
+    return yield* quiescence(chess, alpha, beta, isMaximizing, state, ply, 0);
+  }
+
+  state.nodes++;
+  if (state.nodes % TIME_CHECK_INTERVAL === 0) yield;
+  if (outOfTime(state)) return 0;
+
+  const key = chess.hash();
+  const entry = state.table.probe(key);
+  if (entry && entry.depth >= depth && !onPv) {
+    const score = fromTableScore(entry.score, ply);
+    if (entry.bound === "exact") return score;
+    if (entry.bound === "lower") alpha = Math.max(alpha, score);
+    else beta = Math.min(beta, score);
+    if (beta <= alpha) return score;
+  }
+
+  // Follow the previous iteration's principal variation first, then the
+  // usual ordering (hash move, captures, killers, history)
+  const pvMove = onPv ? state.pv[ply] : undefined;
+  const alphaOrig = alpha;
+  const betaOrig = beta;
+  const moves = moveToFront(
+    state.ordering.order(chess, chess.moves(), ply, entry?.bestMove),
+    pvMove
+  );
+  let bestMove: string | undefined;
+  let bestEval: number;
+
+  if (isMaximizing) {
+    bestEval = -Infinity;
+    for (const move of moves) {
+      chess.move(move);
+      const evalScore = yield* minimax(chess, depth - 1, alpha, beta, false, state, ply + 1, move === pvMove);
+      chess.undo();
+      if (state.aborted) return 0;
+      if (evalScore > bestEval || bestMove === undefined) {
+        bestEval = evalScore;
+        bestMove = move;
+      }
+      alpha = Math.max(alpha, evalScore);
+      if (beta <= alpha) {
+        state.ordering.recordCutoff(chess, move, ply, depth);
+        break;
+      }
+    }
+  } else {
+    bestEval = Infinity;
+    for (const move of moves) {
+      chess.move(move);
+      const evalScore = yield* minimax(chess, depth - 1, alpha, beta, true, state, ply + 1, move === pvMove);
+      chess.undo();
+      if (state.aborted) return 0;
+      if (evalScore < bestEval || bestMove === undefined) {
+        bestEval = evalScore;
+        bestMove = move;
+      }
+      beta = Math.min(beta, evalScore);
+      if (beta <= alpha) {
+        state.ordering.recordCutoff(chess, move, ply, depth);
+        break;
+      }
+    }
+  }
+
+  state.table.store({
+    key,
+    depth,
+    score: toTableScore(bestEval, ply),
+    bound: boundFor(bestEval, alphaOrig, betaOrig),
+    bestMove,
+  });
+
+  return bestEval;
+}
+
+/**
+ * Walk the transposition table's best moves from the current position to
+ * recover the principal variation (SAN). Stops at a miss, an illegal move
+ * or a repeated position.
+ */
+function getPrincipalVariation(
+  chess: Chess,
+  table: TranspositionTable,
+  maxLength: number
+): string[] {
+  const pv: string[] = [];
+  const seen = new Set<string>();
+
+  while (pv.length < maxLength) {
+    const key = chess.hash();
+    if (seen.has(key)) break;
+    seen.add(key);
+
+    const bestMove = table.probe(key)?.bestMove;
+    if (!bestMove) break;
+    try {
+      chess.move(bestMove);
+    } catch {
+      break;
+    }
+    pv.push(bestMove);
+  }
+
+  for (let i = 0; i < pv.length; i++) chess.undo();
+  return pv;
+}
+
+interface RootMove {
+  move: string;
+  score: number;
+}
+
+// One full-width search of the root position to a fixed depth. Returns the
+// `multiPv` best root moves with exact scores, best first.
+function* searchRoot(
+  chess: Chess,
+  moves: string[],
+  depth: number,
+  state: SearchState
+): Search<RootMove[] | null> {
+  const isMaximizing = chess.turn() === "w";
+  const better = (a: number, b: number) => (isMaximizing ? a > b : a < b);
+
+  // Last iteration's candidates first, in their order
+  let ordered = state.ordering.order(chess, moves, 0, state.pv[0]);
+  for (let i = state.rootMoves.length - 1; i >= 0; i--) {
+    ordered = moveToFront(ordered, state.rootMoves[i]);
+  }
+
+  const scored: RootMove[] = [];
+  for (const move of ordered) {
+    // Search each reply with a window bounded by the weakest score still
+    // in the top `multiPv`; anything that can't beat it only needs to be
+    // proven worse.
+    const cutoff =
+      scored.length >= state.multiPv
+        ? scored[state.multiPv - 1].score
+        : isMaximizing
+          ? -Infinity
+          : Infinity;
+
+    chess.move(move);
+    const evalScore = yield* minimax(
+      chess,
+      depth - 1,
+      isMaximizing ? cutoff : -Infinity,
+      isMaximizing ? Infinity : cutoff,
+      !isMaximizing,
+      state,
+      1,
+      move === state.pv[0]
+    );
+    chess.undo();
+    if (state.aborted) return null;
+
+    // Insert after any equal scores, so earlier moves win ties
+    let index = scored.length;
+    while (index > 0 && better(evalScore, scored[index - 1].score)) index--;
+    scored.splice(index, 0, { move, score: evalScore });
+  }
+
+  const best = scored.slice(0, state.multiPv);
+  state.table.store({
+    key: chess.hash(),
+    depth,
+    score: best[0].score,
+    bound: "exact",
+    bestMove: best[0].move,
+  });
+
+  return best;
+}
+
+// Iterative deepening over the position's legal `moves`
+function* deepen(
+  chess: Chess,
+  moves: string[],
+  options: SearchOptions
+): Search<SearchResult | null> {
+  options.table.newSearch();
+  const startTime = Date.now();
+  const state: SearchState = {
+    ...options,
+    multiPv: Math.max(1, options.multiPv ?? 1),
+    canAbort: false,
+    aborted: false,
+    nodes: 0,
+    pv: [],
+    rootMoves: [],
+    ordering: createMoveOrdering(options.pieceValues),
+  };
+
+  let result: SearchResult | null = null;
+  for (let depth = 1; depth <= options.maxDepth; depth++) {
+    state.canAbort = depth > 1;
+    const iteration = yield* searchRoot(chess, moves, depth, state);
+    if (!iteration) break; // ran out of time mid-iteration
+
+    const [best, ...others] = iteration;
+    state.pv = getPrincipalVariation(chess, options.table, depth);
+    if (state.pv[0] !== best.move) state.pv = [best.move];
+    state.rootMoves = iteration.map((line) => line.move);
+
+    const lines: SearchLine[] = [{ move: best.move, score: best.score, pv: state.pv }];
+    for (const { move, score } of others) {
+      chess.move(move);
+      const pv = [move, ...getPrincipalVariation(chess, options.table, depth - 1)];
+      chess.undo();
+      lines.push({ move, score, pv });
+    }
+
+    result = {
+      bestMove: best.move,
+      score: best.score,
+      depth,
+      pv: state.pv,
+      lines,
+      nodes: state.nodes,
+    };
+    options.onIteration?.(result);
+
+    // Every shorter mate has already been ruled out; more depth won't help
+    if (isMateScore(best.score)) break;
+    // The next iteration takes several times longer than this one; don't
+    // start it if it clearly can't finish
+    if (
+      options.deadline !== undefined &&
+      Date.now() - startTime > (options.deadline - startTime) / 2
+    ) {
+      break;
+    }
+    if (options.shouldStop?.()) break;
+  }
+
+  return result;
+}
+
+/**
+ * Iterative deepening: search depth 1, 2, 3… until `maxDepth` or the
+ * deadline, and return the result of the last iteration that completed.
+ * Returns null when the side to move has no legal moves.
+ */
+export function searchPosition(
+  chess: Chess,
+  options: SearchOptions
+): SearchResult | null {
+  const moves = chess.moves();
+  if (moves.length === 0) return null;
+
+  const search = deepen(chess, moves, options);
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+}
+
+/**
+ * searchPosition, handing control back to the event loop every
+ * YIELD_INTERVAL ms so other work (input, a `shouldStop` flag being set)
+ * goes on during the search. Nothing else may use `chess` or the table
+ * until it resolves.
+ */
+export async function searchPositionAsync(
+  chess: Chess,
+  options: SearchOptions
+): Promise<SearchResult | null> {
+  const moves = chess.moves();
+  if (moves.length === 0) return null;
+
+  const search = deepen(chess, moves, options);
+  let lastYield = Date.now();
+  let step = search.next();
+  while (!step.done) {
+    if (Date.now() - lastYield >= YIELD_INTERVAL) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      lastYield = Date.now();
+    }
+    step = search.next();
+  }
+  return step.value;
+}
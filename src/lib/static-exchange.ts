@@ -0,0 +1,112 @@
+/**
+ * Static exchange evaluation (SEE): what a run of captures on one square
+ * wins or loses when each side takes back with its least valuable piece
+ * and stops as soon as carrying on would cost it material. Tells real
+ * sacrifices from trades, and pieces left en prise from defended ones,
+ * without a search. Pins and checks are ignored.
+ */
+
+import { Chess, type Color, type Square } from "chess.js";
+import { PIECE_VALUES } from "./evaluation";
+
+// A move has to give up at least this much material to be a sacrifice:
+// a minor piece for a pawn, or the exchange, but not a pawn
+const SACRIFICE_THRESHOLD = 150;
+
+function leastValuableAttacker(chess: Chess, square: Square, color: Color): Square | null {
+  let least: Square | null = null;
+  for (const from of chess.attackers(square, color)) {
+    if (!least || PIECE_VALUES[chess.get(from)!.type] < PIECE_VALUES[chess.get(least)!.type]) {
+      least = from;
+    }
+  }
+  return least;
+}
+
+/**
+ * Material won by moving the piece on `from` to `to` and exchanging there
+ * for as long as it pays: the value of whatever stands on `to`, less what
+ * the opponent wins back. Negative if the move loses material, and works
+ * for quiet moves too (nothing is captured first).
+ *
+ * @param fen - Position before the move
+ */
+export function exchangeValue(fen: string, from: Square, to: Square): number {
+  const chess = new Chess(fen);
+  const mover = chess.get(from);
+  if (!mover) return 0;
+
+  // gains[i]: material the side making the i-th capture is up if the
+  // exchange stops after it
+  const gains = [PIECE_VALUES[chess.get(to)?.type ?? ""] ?? 0];
+  let attacker: Square | null = from;
+  let side = mover.color;
+
+  while (attacker) {
+    const piece = chess.remove(attacker)!;
+    const victim = chess.get(to);
+    chess.put(piece, to);
+    // Nothing is left to play for once a king has been taken
+    if (victim?.type === "k") break;
+
+    side = side === "w" ? "b" : "w";
+    attacker = leastValuableAttacker(chess, to, side);
+    if (attacker) gains.push(PIECE_VALUES[piece.type] - gains[gains.length - 1]);
+  }
+
+  // Each side stops the exchange if the next capture would leave it worse
+  for (let i = gains.length - 1; i > 0; i--) {
+    gains[i - 1] = -Math.max(-gains[i - 1], gains[i]);
+  }
+  return gains[0];
+}
+
+/**
+ * What the opponent of the piece on `square` wins by taking it, or 0 if
+ * it's safe (undefended pieces lose their whole value).
+ */
+export function hangingValue(fen: string, square: Square): number {
+  const chess = new Chess(fen);
+  const piece = chess.get(square);
+  if (!piece || piece.type === "k") return 0;
+  const attacker = leastValuableAttacker(chess, square, piece.color === "w" ? "b" : "w");
+  return attacker ? Math.max(0, exchangeValue(fen, attacker, square)) : 0;
+}
+
+/**
+ * Material a move gives up: the most the opponent can win back, on the
+ * square the piece went to or by taking a piece the move left en prise,
+ * less what the move captured. Negative if the move wins material. Other
+ * pieces that were already en prise only count for what the move adds, so
+ * a move that leaves an existing threat alone (a fork, say) gives nothing
+ * up.
+ *
+ * @param fenBefore - Position the move was played in
+ * @param san       - The move
+ */
+export function materialGivenUp(fenBefore: string, san: string): number {
+  const chess = new Chess(fenBefore);
+  const move = chess.move(san);
+  const won =
+    (move.captured ? PIECE_VALUES[move.captured] : 0) +
+    (move.promotion ? PIECE_VALUES[move.promotion] - PIECE_VALUES.p : 0);
+
+  const fenAfter = chess.fen();
+  let lost = 0;
+  chess.board().forEach((row) =>
+    row.forEach((piece) => {
+      if (piece?.color !== move.color) return;
+      let given = hangingValue(fenAfter, piece.square);
+      if (given > lost && piece.square !== move.to) {
+        given -= hangingValue(fenBefore, piece.square);
+      }
+      lost = Math.max(lost, given);
+    })
+  );
+  return lost - won;
+}
+
+/** Whether a move sacrifices material. Quiet piece offers count too. */
+export function isSacrifice(fenBefore: string, san: string): boolean {
+  return materialGivenUp(fenBefore, san) >= SACRIFICE_THRESHOLD;
+}
@@ -0,0 +1,220 @@
+/**
+ * Clock-time analysis: how long the player spent on each move and how that
+ * went with the quality of their moves. Move times come from the [%clk]
+ * comments in PGNs exported with clocks, so only imported games have them.
+ */
+
+import { findCriticalMoments } from "./critical-moments";
+import {
+  getPlayerEvaluations,
+  type MoveClassification,
+  type SavedGame,
+  type TimeControl,
+} from "./game-storage";
+
+// A player is in time trouble with less than this share of their starting
+// time left, or TIME_TROUBLE_SECONDS if that's more
+const TIME_TROUBLE_SHARE = 0.1;
+const TIME_TROUBLE_SECONDS = 10;
+
+// A move is hasty if it took less than this share of the player's average
+// time per move in the game
+const HASTY_SHARE = 1 / 3;
+
+// Correlations weaker than this either way are reported as no effect
+const CORRELATION_THRESHOLD = 0.3;
+
+export interface TimedMove {
+  index: number; // of the move in the game
+  spent: number; // seconds
+  clock: number; // seconds left after the move
+  classification?: MoveClassification;
+  accuracy?: number;
+  timeTrouble: boolean;
+  hasty: boolean;
+  critical: boolean; // a critical moment of the game
+}
+
+export interface TimeUsage {
+  moves: TimedMove[]; // the player's moves, in order
+  averageTime: number; // seconds per move
+  timeTroubleMoves: number;
+  timeTroubleErrors: number; // mistakes and blunders made in time trouble
+  hastyCritical: number; // hasty moves at critical moments
+  // Between time spent and accuracy, -1 to 1 (null without enough moves)
+  correlation: number | null;
+}
+
+export interface TimeManagementStats {
+  games: number; // games with clock times
+  averageTime: number; // seconds per move
+  timeTroubleGames: number; // games the player got into time trouble in
+  // Share of mistakes and blunders made in time trouble (null without any)
+  timeTroubleErrorShare: number | null;
+  hastyCriticalPerGame: number;
+  // Average accuracy of moves quicker and slower than the game's average
+  fastAccuracy: number | null;
+  slowAccuracy: number | null;
+}
+
+/** Clock readings from a PGN's [%clk] comments in seconds, in move order. */
+export function parseClockTimes(pgn: string): number[] {
+  return Array.from(
+    pgn.matchAll(/\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/g),
+    ([, hours, minutes, seconds]) =>
+      Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)
+  );
+}
+
+/** The time control in a PGN's TimeControl header, e.g. "180+2". */
+export function parseTimeControl(pgn: string): TimeControl | undefined {
+  const match = pgn.match(/\[TimeControl "(\d+)\+(\d+)"\]/);
+  return match ? { initial: Number(match[1]), increment: Number(match[2]) } : undefined;
+}
+
+/**
+ * Seconds spent on each move: the mover's previous clock reading (their
+ * starting time for their first move) less this one, plus the increment.
+ * Null for moves without a clock reading or a previous one to compare to.
+ */
+export function getMoveTimes(game: SavedGame): (number | null)[] {
+  const control = game.metadata.timeControl ?? parseTimeControl(game.pgn);
+  const previous: Record<"w" | "b", number | undefined> = {
+    w: control?.initial,
+    b: control?.initial,
+  };
+
+  return game.moves.map((move) => {
+    const before = previous[move.color];
+    previous[move.color] = move.clock;
+    if (move.clock === undefined || before === undefined) return null;
+    return Math.max(0, before - move.clock + (control?.increment ?? 0));
+  });
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// Pearson correlation coefficient, or null if either side doesn't vary
+function correlate(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const meanX = average(xs)!;
+  const meanY = average(ys)!;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+const isError = (classification?: MoveClassification) =>
+  classification === "mistake" || classification === "blunder";
+
+/**
+ * How the player used their clock in a game, with move quality where the
+ * game has been analysed. Null if the game has no clock times.
+ */
+export function analyzeTimeUsage(game: SavedGame): TimeUsage | null {
+  const color = game.metadata.playerColor === "white" ? "w" : "b";
+  const times = getMoveTimes(game);
+  const control = game.metadata.timeControl ?? parseTimeControl(game.pgn);
+
+  const evaluations = new Map(
+    getPlayerEvaluations(game).map(({ index, evaluation }) => [index, evaluation])
+  );
+  const critical = new Set(
+    game.analysis
+      ? (game.analysis.criticalMoments ??
+          findCriticalMoments(game.moves, game.analysis.evaluations)
+        ).map((moment) => moment.index)
+      : []
+  );
+
+  const timed = game.moves.flatMap((move, index) => {
+    const spent = times[index];
+    return move.color === color && spent !== null && move.clock !== undefined
+      ? [{ index, spent, clock: move.clock }]
+      : [];
+  });
+  if (timed.length === 0) return null;
+
+  const averageTime = average(timed.map((move) => move.spent))!;
+  const troubleBelow = Math.max(
+    TIME_TROUBLE_SECONDS,
+    (control?.initial ?? 0) * TIME_TROUBLE_SHARE
+  );
+
+  const moves: TimedMove[] = timed.map(({ index, spent, clock }) => ({
+    index,
+    spent,
+    clock,
+    classification: evaluations.get(index)?.classification,
+    accuracy: evaluations.get(index)?.accuracy,
+    timeTrouble: clock < troubleBelow,
+    hasty: spent < averageTime * HASTY_SHARE,
+    critical: critical.has(index),
+  }));
+
+  const rated = moves.filter((move) => move.accuracy !== undefined);
+  return {
+    moves,
+    averageTime,
+    timeTroubleMoves: moves.filter((move) => move.timeTrouble).length,
+    timeTroubleErrors: moves.filter((move) => move.timeTrouble && isError(move.classification))
+      .length,
+    hastyCritical: moves.filter((move) => move.hasty && move.critical).length,
+    correlation: correlate(
+      rated.map((move) => move.spent),
+      rated.map((move) => move.accuracy!)
+    ),
+  };
+}
+
+/** A sentence on how time spent went with move quality. */
+export function describeTimeCorrelation(correlation: number): string {
+  if (correlation >= CORRELATION_THRESHOLD) {
+    return "Your moves were better when you took your time.";
+  }
+  if (correlation <= -CORRELATION_THRESHOLD) {
+    return "Your longer thinks didn't lead to better moves.";
+  }
+  return "Time spent made little difference to the quality of your moves.";
+}
+
+/** Time management across the games that have clock times. */
+export function summarizeTimeManagement(games: SavedGame[]): TimeManagementStats | null {
+  const usages = games
+    .map((game) => analyzeTimeUsage(game))
+    .filter((usage): usage is TimeUsage => usage !== null);
+  if (usages.length === 0) return null;
+
+  const moves = usages.flatMap((usage) => usage.moves);
+  const errors = moves.filter((move) => isError(move.classification));
+  const accuracies = (quick: boolean) =>
+    usages.flatMap((usage) =>
+      usage.moves
+        .filter((move) => move.accuracy !== undefined)
+        .filter((move) => (move.spent < usage.averageTime) === quick)
+        .map((move) => move.accuracy!)
+    );
+
+  return {
+    games: usages.length,
+    averageTime: average(moves.map((move) => move.spent))!,
+    timeTroubleGames: usages.filter((usage) => usage.timeTroubleMoves > 0).length,
+    timeTroubleErrorShare:
+      errors.length > 0
+        ? (errors.filter((move) => move.timeTrouble).length / errors.length) * 100
+        : null,
+    hastyCriticalPerGame:
+      usages.reduce((sum, usage) => sum + usage.hastyCritical, 0) / usages.length,
+    fastAccuracy: average(accuracies(true)),
+    slowAccuracy: average(accuracies(false)),
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Transposition table for the search engine.
+ *
+ * Positions are keyed by their Zobrist hash (chess.js maintains one
+ * incrementally on every move/undo, exposed as `chess.hash()`). Entries
+ * live in a fixed number of slots indexed by the low bits of the key, so
+ * memory use is capped no matter how long a game runs.
+ */
+
+export type BoundType = "exact" | "lower" | "upper";
+
+export interface TableEntry {
+  key: string; // full Zobrist key, used to detect index collisions
+  depth: number; // remaining search depth the score was computed with
+  score: number; // centipawns from white's perspective
+  bound: BoundType;
+  bestMove?: string; // SAN of the best/refutation move, if one was found
+  generation: number; // search generation that stored the entry
+}
+
+export interface TranspositionTable {
+  /** Look up a position. Returns null on a miss or an index collision. */
+  probe(key: string): TableEntry | null;
+  /** Store a search result, subject to the replacement policy. */
+  store(entry: Omit<TableEntry, "generation">): void;
+  /** Mark the start of a new search so older entries become replaceable. */
+  newSearch(): void;
+  /** Drop every entry (e.g. when a new game starts). */
+  clear(): void;
+  /** Number of occupied slots. */
+  size(): number;
+  /** Total number of slots. */
+  capacity(): number;
+}
+
+export const DEFAULT_TABLE_SIZE = 1 << 18; // 262,144 slots
+
+/**
+ * Create a transposition table with room for `maxEntries` positions
+ * (rounded down to a power of two).
+ *
+ * Replacement policy: a slot is overwritten when it is empty, holds the
+ * same position, was written by an earlier search generation, or holds a
+ * shallower result than the new one. Otherwise the deeper entry from the
+ * current search is kept.
+ */
+export function createTranspositionTable(
+  maxEntries = DEFAULT_TABLE_SIZE
+): TranspositionTable {
+  const slotCount = 1 << Math.floor(Math.log2(Math.max(1, maxEntries)));
+  const mask = slotCount - 1;
+  let slots: (TableEntry | undefined)[] = new Array(slotCount);
+  let generation = 0;
+  let occupied = 0;
+
+  // The low 28 bits of the 64-bit key are plenty to spread entries across
+  // any table size we'd realistically allocate in the browser.
+  const indexOf = (key: string) =>
+    parseInt(key.slice(-7), 16) & mask;
+
+  return {
+    probe(key) {
+      const entry = slots[indexOf(key)];
+      if (!entry || entry.key !== key) return null;
+      return entry;
+    },
+
+    store(entry) {
+      const index = indexOf(entry.key);
+      const existing = slots[index];
+
+      if (!existing) {
+        occupied++;
+      } else if (
+        existing.key !== entry.key &&
+        existing.generation === generation &&
+        existing.depth > entry.depth
+      ) {
+        return;
+      }
+
+      // Keep the old best move if the new result didn't find one
+      const bestMove =
+        entry.bestMove ??
+        (existing && existing.key === entry.key ? existing.bestMove : undefined);
+
+      slots[index] = { ...entry, bestMove, generation };
+    },
+
+    newSearch() {
+      generation++;
+    },
+
+    clear() {
+      slots = new Array(slotCount);
+      generation = 0;
+      occupied = 0;
+    },
+
+    size() {
+      return occupied;
+    },
+
+    capacity() {
+      return slotCount;
+    },
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Engine provider backed by an external UCI engine (e.g. a locally
+ * installed Stockfish) running as a child process on the server.
+ *
+ * Configure it with UCI_ENGINE_PATH, and optionally UCI_ENGINE_DEPTH.
+ * Requests are handled one at a time; the process is started on first use
+ * and restarted if it exits.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createInterface } from "node:readline";
+import { basename } from "node:path";
+import { Chess } from "chess.js";
+import { MATE_SCORE } from "./evaluation";
+import type { EngineProvider, PositionAnalysis } from "./engine-provider";
+import type { SearchLine } from "./search";
+
+export interface UciProcessOptions {
+  args?: string[];
+  depth?: number; // search depth per position
+  timeout?: number; // ms per position before the search is stopped
+}
+
+export interface UciProcessProvider extends EngineProvider {
+  /** Shut the engine process down (it restarts on the next request). */
+  close(): void;
+}
+
+const DEFAULT_DEPTH = 16;
+const DEFAULT_TIMEOUT = 30000;
+const HANDSHAKE_TIMEOUT = 10000;
+// How long to wait for "bestmove" after asking the engine to stop
+const STOP_GRACE = 5000;
+
+interface InfoLine {
+  depth: number;
+  score: number; // white's perspective, in our mate score convention
+  pv: string[]; // UCI moves
+}
+
+interface RunningEngine {
+  process: ChildProcessWithoutNullStreams;
+  multiPv: number;
+  send(command: string): void;
+  /** Feed output lines to `onLine` until it returns true. */
+  read(onLine: (line: string) => boolean, timeoutMs: number): Promise<void>;
+}
+
+// UCI scores are from the side to move's point of view and count mates in
+// moves; ours are from white's and count mates in plies
+function toWhiteScore(kind: string, value: number, turn: "w" | "b"): number {
+  let score = value;
+  if (kind === "mate") {
+    score = value > 0 ? MATE_SCORE - (2 * value - 1) : -(MATE_SCORE - 2 * -value);
+  }
+  return turn === "w" ? score : -score;
+}
+
+// Parse an "info" line carrying a score and pv, keyed by its multipv index
+function parseInfo(line: string, turn: "w" | "b"): [number, InfoLine] | null {
+  const tokens = line.split(/\s+/);
+  const scoreAt = tokens.indexOf("score");
+  const pvAt = tokens.indexOf("pv");
+  if (tokens[0] !== "info" || scoreAt === -1 || pvAt === -1) return null;
+  // Bounds from an aspiration window aren't final scores
+  if (tokens[scoreAt + 3] === "lowerbound" || tokens[scoreAt + 3] === "upperbound") {
+    return null;
+  }
+
+  const number = (name: string, fallback: number) => {
+    const index = tokens.indexOf(name);
+    return index === -1 ? fallback : Number(tokens[index + 1]);
+  };
+  return [
+    number("multipv", 1),
+    {
+      depth: number("depth", 0),
+      score: toWhiteScore(tokens[scoreAt + 1], Number(tokens[scoreAt + 2]), turn),
+      pv: tokens.slice(pvAt + 1).filter(Boolean),
+    },
+  ];
+}
+
+// Convert a UCI principal variation to SAN, stopping at any illegal move
+function toSanLine(fen: string, pv: string[]): string[] {
+  const chess = new Chess(fen);
+  const sans: string[] = [];
+  for (const uci of pv) {
+    try {
+      sans.push(
+        chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san
+      );
+    } catch {
+      break;
+    }
+  }
+  return sans;
+}
+
+export function createUciProcessProvider(
+  command: string,
+  options: UciProcessOptions = {}
+): UciProcessProvider {
+  const depth = options.depth ?? DEFAULT_DEPTH;
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  let engine: Promise<RunningEngine> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let name = basename(command);
+
+  function start(): Promise<RunningEngine> {
+    const child = spawn(command, options.args ?? [], { stdio: "pipe" });
+    const output = createInterface({ input: child.stdout });
+    let listener: ((line: string) => void) | null = null;
+    let failure: ((err: Error) => void) | null = null;
+
+    output.on("line", (line) => listener?.(line.trim()));
+    const fail = (err: Error) => {
+      if (engine === started) engine = null;
+      failure?.(err);
+    };
+    child.on("error", fail);
+    // Writing to an engine that has died is reported through "exit"
+    child.stdin.on("error", () => {});
+    child.on("exit", (code) => fail(new Error(`Engine exited (code ${code})`)));
+
+    const running: RunningEngine = {
+      process: child,
+      multiPv: 1,
+      send: (line) => child.stdin.write(`${line}\n`),
+      read: (onLine, timeoutMs) =>
+        new Promise<void>((resolve, reject) => {
+          const done = () => {
+            clearTimeout(timer);
+            listener = null;
+            failure = null;
+          };
+          const timer = setTimeout(() => {
+            done();
+            child.kill();
+            reject(new Error("Engine did not respond in time"));
+          }, timeoutMs);
+          listener = (line) => {
+            if (onLine(line)) {
+              done();
+              resolve();
+            }
+          };
+          failure = (err) => {
+            done();
+            reject(err);
+          };
+        }),
+    };
+
+    const started = (async () => {
+      running.send("uci");
+      await running.read((line) => {
+        if (line.startsWith("id name ")) name = line.slice("id name ".length);
+        return line === "uciok";
+      }, HANDSHAKE_TIMEOUT);
+      running.send("isready");
+      await running.read((line) => line === "readyok", HANDSHAKE_TIMEOUT);
+      return running;
+    })();
+    return started;
+  }
+
+  async function search(fen: string, multiPv: number): Promise<PositionAnalysis | null> {
+    const chess = new Chess(fen);
+    if (chess.moves().length === 0) return null;
+    // One line, whatever whitespace the FEN came with
+    fen = chess.fen();
+    const turn = chess.turn();
+
+    engine ??= start();
+    const running = await engine.catch((err) => {
+      engine = null;
+      throw err;
+    });
+
+    if (running.multiPv !== multiPv) {
+      running.send(`setoption name MultiPV value ${multiPv}`);
+      running.multiPv = multiPv;
+    }
+    running.send(`position fen ${fen}`);
+    running.send(`go depth ${depth}`);
+
+    const latest = new Map<number, InfoLine>();
+    const stopTimer = setTimeout(() => running.send("stop"), timeout);
+    try {
+      await running.read((line) => {
+        const info = parseInfo(line, turn);
+        if (info) latest.set(info[0], info[1]);
+        return line.startsWith("bestmove");
+      }, timeout + STOP_GRACE);
+    } finally {
+      clearTimeout(stopTimer);
+    }
+
+    const lines: SearchLine[] = [];
+    for (const index of Array.from(latest.keys()).sort((a, b) => a - b)) {
+      const info = latest.get(index)!;
+      const pv = toSanLine(fen, info.pv);
+      if (pv.length > 0) lines.push({ move: pv[0], score: info.score, pv });
+    }
+    if (lines.length === 0) throw new Error("Engine returned no evaluation");
+    return { lines, depth: latest.get(1)?.depth ?? depth };
+  }
+
+  return {
+    get name() {
+      return name;
+    },
+
+    analyse(fen, multiPv) {
+      const result = queue.then(() => search(fen, multiPv));
+      queue = result.catch(() => {});
+      return result;
+    },
+
+    close() {
+      const running = engine;
+      engine = null;
+      void running?.then((r) => r.process.kill()).catch(() => {});
+    },
+  };
+}
+
+let configured: UciProcessProvider | null | undefined;
+
+/**
+ * The server's UCI engine from UCI_ENGINE_PATH (and UCI_ENGINE_DEPTH), or
+ * null when none is configured.
+ */
+export function getConfiguredEngine(): UciProcessProvider | null {
+  if (configured === undefined) {
+    const path = process.env.UCI_ENGINE_PATH;
+    const depth = Number(process.env.UCI_ENGINE_DEPTH) || undefined;
+    configured = path ? createUciProcessProvider(path, { depth }) : null;
+  }
+  return configured;
+}
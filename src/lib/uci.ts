@@ -0,0 +1,262 @@
+/**
+ * UCI (Universal Chess Interface) adapter for the built-in engine, so it
+ * can play in tournament GUIs and automated match harnesses.
+ *
+ * Supports uci, isready, ucinewgame, position, go (depth, movetime,
+ * wtime/btime/winc/binc, infinite, ponder), stop, ponderhit, setoption
+ * (UCI_LimitStrength, UCI_Elo, Personality) and quit. Infinite and ponder
+ * searches hold their bestmove until "stop" or "ponderhit", as the
+ * protocol requires, even once there's nothing left to search.
+ * Searches give the event loop a turn every few milliseconds, so "stop"
+ * is read and answered while the engine is thinking.
+ */
+
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import { Chess } from "chess.js";
+import {
+  clampRating,
+  MAX_RATING,
+  MIN_RATING,
+  resetEngine,
+  searchWithLimits,
+  type SearchLimits,
+  type SearchProgress,
+} from "./chess-engine";
+import { getMateIn, isMateScore } from "./evaluation";
+import {
+  DEFAULT_PERSONALITY,
+  PERSONALITIES,
+  type PersonalityId,
+} from "./personalities";
+
+const ENGINE_NAME = "AI Chess Coach";
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+export interface UciEngine {
+  /** Handle one line of input; "go" starts a search and returns at once. */
+  handle(line: string): void;
+  /** Resolves once every search started so far has printed its bestmove. */
+  idle(): Promise<void>;
+}
+
+// Convert SAN moves played from `fen` into UCI long algebraic notation
+function toUciMoves(fen: string, sans: string[]): string[] {
+  const chess = new Chess(fen);
+  return sans.map((san) => {
+    const move = chess.move(san);
+    return `${move.from}${move.to}${move.promotion ?? ""}`;
+  });
+}
+
+// "info" line for a completed iteration; UCI scores are from the side to
+// move's point of view
+function formatInfo(fen: string, progress: SearchProgress, elapsed: number): string {
+  const sign = fen.split(" ")[1] === "w" ? 1 : -1;
+  const score = isMateScore(progress.score)
+    ? `mate ${sign * (getMateIn(progress.score) ?? 0)}`
+    : `cp ${sign * progress.score}`;
+  const pv = toUciMoves(fen, progress.pv).join(" ");
+  return `info depth ${progress.depth} score ${score} nodes ${progress.nodes} time ${elapsed} pv ${pv}`;
+}
+
+// Parse the arguments of a "position" command into a FEN
+function parsePosition(args: string[]): string | null {
+  const movesAt = args.indexOf("moves");
+  const setup = movesAt === -1 ? args : args.slice(0, movesAt);
+  const moves = movesAt === -1 ? [] : args.slice(movesAt + 1);
+
+  let chess: Chess;
+  try {
+    if (setup[0] === "startpos") chess = new Chess(START_FEN);
+    else if (setup[0] === "fen") chess = new Chess(setup.slice(1).join(" "));
+    else return null;
+
+    for (const move of moves) {
+      chess.move({
+        from: move.slice(0, 2),
+        to: move.slice(2, 4),
+        promotion: move[4],
+      });
+    }
+  } catch {
+    return null;
+  }
+  return chess.fen();
+}
+
+// Parse the arguments of a "go" command for the side to move
+function parseGo(args: string[], turn: "w" | "b"): SearchLimits {
+  const value = (name: string) => {
+    const index = args.indexOf(name);
+    const number = index === -1 ? NaN : Number(args[index + 1]);
+    return Number.isFinite(number) ? number : undefined;
+  };
+
+  const limits: SearchLimits = {};
+  const depth = value("depth");
+  const moveTime = value("movetime");
+  const remaining = value(turn === "w" ? "wtime" : "btime");
+  if (depth !== undefined) limits.depth = Math.max(1, depth);
+  if (moveTime !== undefined) limits.moveTime = moveTime;
+  if (remaining !== undefined) {
+    limits.clock = { remaining, increment: value(turn === "w" ? "winc" : "binc") ?? 0 };
+  }
+  if (args.includes("infinite") || args.includes("ponder")) limits.infinite = true;
+  return limits;
+}
+
+/**
+ * Protocol state machine. Lines go in through handle(); responses come out
+ * through `write`, one line at a time.
+ */
+export function createUciEngine(write: (line: string) => void): UciEngine {
+  // Full strength unless the GUI asks for a rating
+  let limitStrength = false;
+  let elo = MAX_RATING;
+  let personality: PersonalityId = DEFAULT_PERSONALITY;
+  let fen = START_FEN;
+  // Searches run one after another; "stop" cancels all of them
+  const running = new Set<AbortController>();
+  let queue: Promise<void> = Promise.resolve();
+
+  function go(args: string[]) {
+    const controller = new AbortController();
+    const position = fen;
+    const rating = limitStrength ? elo : MAX_RATING;
+    const style = personality;
+    const limits = parseGo(args, position.split(" ")[1] as "w" | "b");
+    running.add(controller);
+
+    queue = queue
+      .then(async () => {
+        const startTime = Date.now();
+        const san = await searchWithLimits(position, rating, limits, {
+          signal: controller.signal,
+          personality: style,
+          onProgress: (progress) =>
+            write(formatInfo(position, progress, Date.now() - startTime)),
+        });
+        if (limits.infinite && !controller.signal.aborted) {
+          await new Promise((resolve) =>
+            controller.signal.addEventListener("abort", resolve, { once: true })
+          );
+        }
+        write(`bestmove ${san ? toUciMoves(position, [san])[0] : "0000"}`);
+      })
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : "search failed";
+        write(`info string error ${message}`);
+        write("bestmove 0000");
+      })
+      .finally(() => {
+        running.delete(controller);
+      });
+  }
+
+  function setOption(args: string[]) {
+    const valueAt = args.indexOf("value");
+    const name = args.slice(1, valueAt === -1 ? undefined : valueAt).join(" ");
+    const value = valueAt === -1 ? "" : args.slice(valueAt + 1).join(" ");
+
+    switch (name.toLowerCase()) {
+      case "uci_limitstrength":
+        limitStrength = value.toLowerCase() === "true";
+        break;
+      case "uci_elo": {
+        const rating = Number(value);
+        if (value === "" || !Number.isFinite(rating)) {
+          write(`info string invalid UCI_Elo ${value}`);
+          return;
+        }
+        elo = clampRating(rating);
+        break;
+      }
+      case "personality": {
+        const match = PERSONALITIES.find((p) => p.id === value.toLowerCase());
+        if (!match) {
+          write(`info string invalid personality ${value}`);
+          return;
+        }
+        personality = match.id;
+        break;
+      }
+      default:
+        write(`info string unknown option ${name}`);
+    }
+  }
+
+  return {
+    handle(line) {
+      const [command, ...args] = line.trim().split(/\s+/);
+      switch (command) {
+        case "uci":
+          write(`id name ${ENGINE_NAME}`);
+          write(`id author ${ENGINE_NAME} contributors`);
+          write(`option name UCI_LimitStrength type check default ${limitStrength}`);
+          write(
+            `option name UCI_Elo type spin default ${elo} min ${MIN_RATING} max ${MAX_RATING}`
+          );
+          write(
+            `option name Personality type combo default ${personality} ` +
+              PERSONALITIES.map((p) => `var ${p.id}`).join(" ")
+          );
+          write("uciok");
+          break;
+        case "isready":
+          write("readyok");
+          break;
+        case "ucinewgame":
+          resetEngine();
+          fen = START_FEN;
+          break;
+        case "position": {
+          const next = parsePosition(args);
+          if (next) fen = next;
+          else write(`info string invalid position ${args.join(" ")}`);
+          break;
+        }
+        case "go":
+          go(args);
+          break;
+        case "stop":
+        case "ponderhit":
+        case "quit":
+          running.forEach((controller) => controller.abort());
+          break;
+        case "setoption":
+          setOption(args);
+          break;
+        case "":
+          break;
+        default:
+          write(`info string unknown command ${command}`);
+      }
+    },
+
+    idle() {
+      return queue;
+    },
+  };
+}
+
+/**
+ * Speak UCI over a pair of streams (normally stdin and stdout). Resolves
+ * after "quit" or when the input ends, once any search has finished.
+ */
+export function runUci(input: Readable, output: Writable): Promise<void> {
+  const engine = createUciEngine((line) => output.write(`${line}\n`));
+  const lines = createInterface({ input, terminal: false });
+
+  return new Promise((resolve) => {
+    lines.on("line", (line) => {
+      engine.handle(line);
+      if (line.trim() === "quit") lines.close();
+    });
+    lines.on("close", () => {
+      // Nobody is left to send "stop"
+      engine.handle("stop");
+      void engine.idle().then(resolve);
+    });
+  });
+}
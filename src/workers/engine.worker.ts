@@ -0,0 +1,24 @@
+/**
+ * Web Worker entry point for the chess engine. Searches and game analysis
+ * run here so the board stays responsive while the engine thinks. Games
+ * are analysed by the server's engine when one is configured, and the
+ * opening book is loaded before the first request is handled.
+ */
+
+import { createEngineWorker } from "@/lib/engine-worker";
+import { builtInEngine } from "@/lib/analysis-engine";
+import { createServerEngineProvider } from "@/lib/engine-provider";
+import { loadOpeningBook } from "@/lib/opening-book";
+import type { EngineRequest } from "@/lib/engine-protocol";
+
+const handle = createEngineWorker(
+  (response) => self.postMessage(response),
+  createServerEngineProvider(builtInEngine)
+);
+
+// Without a book the engine just searches from the first move
+const bookLoaded = loadOpeningBook();
+
+self.addEventListener("message", (event: MessageEvent<EngineRequest>) => {
+  void bookLoaded.then(() => handle(event.data));
+});